@@ -0,0 +1,361 @@
+import { Artifact, Being, GeoFeature, Island, Region, Route } from "./io_schema";
+import { geoFeatures, regionRoutes } from "./island_validator";
+
+// Gameplay balance analysis.
+// Schema and graph validity say nothing about whether an island plays well: a boss can guard the first region,
+// the one important artifact can sit in a region nobody can reach, and artifact values are all over the place.
+// The analyzer walks the island the way a player would, from the starting routes along next_area (the main path),
+// then everything else reachable, and reports per region:
+//  - threat: how dangerous its hostile fauna and inhabitants are, from their strength and intelligence
+//  - the difficulty of the easiest route into it
+//  - the value of the loot lying around in it, its buildings and its geo features
+// and the same for each of its geo features, which routes can lead to directly. Issues are raised where the
+// numbers cross a threshold, phrased so they can go straight into a modify prompt.
+
+export type BalanceThresholds = {
+    max_opening_threat: number;     // the most threat allowed in the regions the starting routes lead to (default 2: average hostiles)
+    max_threat_jump: number;        // the most threat may rise from one main path region to the next (default 4)
+    loot_outlier_ratio: number;     // an artifact worth this many times more (or less) than the island's median is an outlier (default 20)
+};
+
+export type BalanceIssue = {
+    kind: "opening_threat" | "threat_spike" | "unreachable_loot" | "impassable_loot" | "loot_outlier" | "loot_inversion" | "dead_end";
+    severity: "error" | "warning";
+    region?: string;
+    message: string;
+};
+
+export type RegionBalance = {
+    region_name: string;
+    step?: number;                  // position on the main path, 0 = the first region; absent if off the main path
+    depth?: number;                 // fewest routes from the starting routes; absent if unreachable
+    entry_difficulty?: Route["difficulty"];     // the easiest route leading into the region
+    hostiles: number;
+    threat: number;                 // the most dangerous hostile's threat; 0 with no hostiles
+    total_threat: number;           // every hostile's threat, added up
+    strongest?: string;             // e.g. `boss wirulf in Grey Light`
+    loot_value: number;
+    important_artifacts: number;
+    dead_end: boolean;              // no route leads out of the region to any other region
+    features: FeatureBalance[];     // its geo features; their hostiles and loot count toward the region's too
+};
+
+export type FeatureBalance = {
+    feature_name: string;
+    feature_type: GeoFeature["feature_type"];
+    entry_difficulty?: Route["difficulty"];     // the easiest route leading straight to the feature; absent if none does
+    hostiles: number;
+    threat: number;
+    strongest?: string;
+    loot_value: number;
+    important_artifacts: number;
+};
+
+export type BalanceReport = {
+    island_name: string;
+    main_path: string[];            // region names from the first starting route along next_area
+    regions: RegionBalance[];       // main path first, then the rest by depth, then unreachable regions
+    difficulty_curve: number[];     // threat along the main path
+    route_curve: Route["difficulty"][];     // difficulty of each next_area along the main path
+    loot_curve: number[];           // loot value along the main path
+    total_loot_value: number;
+    issues: BalanceIssue[];
+};
+
+export const DEFAULT_BALANCE_THRESHOLDS: BalanceThresholds = {
+    max_opening_threat: 2,
+    max_threat_jump: 4,
+    loot_outlier_ratio: 20
+};
+
+const strengthThreat: Record<Being["strength"], number> = { weak: 1, average: 2, strong: 4, boss: 8 };
+const intelligenceFactor: Record<Being["intelligence"], number> = { low: 0.75, average: 1, high: 1.25, demigod: 1.5 };
+const difficultyRank: Record<Route["difficulty"], number> = { easy: 0, medium: 1, hard: 2, impossible: 3 };
+
+type Located<T> = { item: T; place?: string };    // place: the building or geo feature it's in
+
+/**
+ * Analyzes an island's difficulty and loot progression.
+ * @param thresholds Overrides for any of the default thresholds.
+ */
+export function analyzeBalance(island: Island, thresholds: Partial<BalanceThresholds> = {}): BalanceReport {
+    const limits = { ...DEFAULT_BALANCE_THRESHOLDS, ...thresholds };
+    const regions = island.regions ?? [];
+    const byName = new Map(regions.map(r => [r.region_name, r]));
+    const issues: BalanceIssue[] = [];
+
+    const mainPath = followMainPath(island, byName);
+    const depths = routeDepths(island, byName, () => true);
+    const passable = routeDepths(island, byName, route => route.difficulty !== "impossible");
+
+    // the easiest way into each region, and straight to each geo feature
+    const entries = new Map<string, Route["difficulty"]>();
+    const featureEntries = new Map<string, Route["difficulty"]>();     // by region and feature name
+    const featureKey = (region: string, feature: string) => JSON.stringify([region, feature]);
+    const easier = (map: Map<string, Route["difficulty"]>, key: string, difficulty: Route["difficulty"]) => {
+        const known = map.get(key);
+        if (known === undefined || difficultyRank[difficulty] < difficultyRank[known]) map.set(key, difficulty);
+    };
+    const noteEntry = (route: Route) => {
+        easier(entries, route.destination_name, route.difficulty);
+        if (route.destination_feature !== undefined) easier(featureEntries, featureKey(route.destination_name, route.destination_feature), route.difficulty);
+    };
+    (island.starting_routes ?? []).forEach(noteEntry);
+    regions.forEach(region => regionRoutes(region).forEach(({ route }) => noteEntry(route)));
+
+    const analyzed = new Map<string, RegionBalance>();
+    for (const region of regions) {
+        if (analyzed.has(region.region_name)) continue;
+        const hostiles = rankHostiles(hostilesOf(region));
+        const strongest = hostiles[0];
+        const artifacts = artifactsOf(region);
+        const step = mainPath.indexOf(region.region_name);
+        const depth = depths.get(region.region_name);
+        const entry = entries.get(region.region_name);
+        analyzed.set(region.region_name, {
+            region_name: region.region_name,
+            ...(step >= 0 ? { step } : {}),
+            ...(depth !== undefined ? { depth } : {}),
+            ...(entry !== undefined ? { entry_difficulty: entry } : {}),
+            hostiles: hostiles.length,
+            threat: round(strongest?.threat ?? 0),
+            total_threat: round(hostiles.reduce((sum, h) => sum + h.threat, 0)),
+            ...(strongest ? { strongest: describeBeing(strongest.item, strongest.place) } : {}),
+            loot_value: lootValue(artifacts),
+            important_artifacts: artifacts.filter(a => a.item.significance === "important").length,
+            dead_end: !regionRoutes(region).some(({ route }) => route.destination_name !== region.region_name && byName.has(route.destination_name)),
+            features: geoFeatures(region).map(feature => {
+                const hostiles = rankHostiles(hostilesOf(feature));
+                const artifacts = artifactsOf(feature);
+                const entry = featureEntries.get(featureKey(region.region_name, feature.feature_name));
+                return {
+                    feature_name: feature.feature_name,
+                    feature_type: feature.feature_type,
+                    ...(entry !== undefined ? { entry_difficulty: entry } : {}),
+                    hostiles: hostiles.length,
+                    threat: round(hostiles[0]?.threat ?? 0),
+                    ...(hostiles[0] ? { strongest: describeBeing(hostiles[0].item, hostiles[0].place ?? feature.feature_name) } : {}),
+                    loot_value: lootValue(artifacts),
+                    important_artifacts: artifacts.filter(a => a.item.significance === "important").length
+                };
+            })
+        });
+    }
+
+    const ordered = [...analyzed.values()].sort((a, b) =>
+        (a.step ?? Infinity) - (b.step ?? Infinity) || (a.depth ?? Infinity) - (b.depth ?? Infinity));
+    const onPath = mainPath.map(name => analyzed.get(name)!);
+
+    // a dangerous welcome
+    for (const balance of ordered) {
+        if (balance.depth === 0 && balance.threat > limits.max_opening_threat) {
+            issues.push({
+                kind: "opening_threat",
+                severity: balance.threat >= strengthThreat.boss * intelligenceFactor.low ? "error" : "warning",    // any boss
+                region: balance.region_name,
+                message: `"${balance.region_name}" is where the player arrives, but it holds a ${balance.strongest} (threat ${balance.threat}, ` +
+                    `the limit for opening regions is ${limits.max_opening_threat}). Move it further along the main path or make it weaker.`
+            });
+        }
+    }
+
+    // difficulty should climb steadily, not leap
+    for (let i = 1; i < onPath.length; i++) {
+        const jump = onPath[i].threat - onPath[i - 1].threat;
+        if (jump > limits.max_threat_jump) {
+            issues.push({
+                kind: "threat_spike",
+                severity: "warning",
+                region: onPath[i].region_name,
+                message: `Threat jumps from ${onPath[i - 1].threat} in "${onPath[i - 1].region_name}" to ${onPath[i].threat} in "${onPath[i].region_name}" ` +
+                    `(${onPath[i].strongest}), more than ${limits.max_threat_jump}. Add a region or hostiles in between, or make it weaker.`
+            });
+        }
+    }
+
+    // loot nobody can get to
+    for (const region of regions) {
+        const important = artifactsOf(region).filter(a => a.item.significance === "important");
+        if (important.length === 0) continue;
+        const names = important.map(a => describeArtifact(a.item, a.place)).join(", ");
+        if (!depths.has(region.region_name)) {
+            issues.push({
+                kind: "unreachable_loot",
+                severity: "error",
+                region: region.region_name,
+                message: `Important artifacts in "${region.region_name}" can't be reached, because no route leads there from the starting routes: ${names}.`
+            });
+        } else if (!passable.has(region.region_name)) {
+            issues.push({
+                kind: "impassable_loot",
+                severity: "warning",
+                region: region.region_name,
+                message: `Important artifacts in "${region.region_name}" are only reachable through impossible routes: ${names}.`
+            });
+        }
+    }
+
+    issues.push(...lootValueIssues(regions, limits.loot_outlier_ratio));
+
+    for (const balance of ordered) {
+        if (balance.dead_end && balance.depth !== undefined) {
+            issues.push({
+                kind: "dead_end",
+                severity: "warning",
+                region: balance.region_name,
+                message: `"${balance.region_name}" is a dead end: none of its routes lead to another region.`
+            });
+        }
+    }
+
+    return {
+        island_name: island.island_name,
+        main_path: mainPath,
+        regions: ordered,
+        difficulty_curve: onPath.map(r => r.threat),
+        route_curve: mainPath.slice(0, -1).map(name => byName.get(name)!.next_area?.difficulty ?? "impossible"),
+        loot_curve: onPath.map(r => r.loot_value),
+        total_loot_value: ordered.reduce((sum, r) => sum + r.loot_value, 0),
+        issues
+    };
+}
+
+/**
+ * A modify prompt asking the model to fix a report's issues.
+ */
+export function describeBalanceIssues(report: BalanceReport): string {
+    return `Rebalance the island "${report.island_name}". Keep everything else as it is, but fix these gameplay balance problems:\n` +
+        report.issues.map(issue => `- ${issue.message}`).join("\n");
+}
+
+// ===== 🔷 Walking the island =====
+
+/** The regions from the first starting route along next_area, until it loops back or leaves the island */
+function followMainPath(island: Island, byName: Map<string, Region>): string[] {
+    const path: string[] = [];
+    let name = island.starting_routes?.[0]?.destination_name;
+    while (name !== undefined && byName.has(name) && !path.includes(name)) {
+        path.push(name);
+        name = byName.get(name)!.next_area?.destination_name;
+    }
+    return path;
+}
+
+/** Fewest routes from the starting routes to each region, taking only routes `usable` accepts */
+function routeDepths(island: Island, byName: Map<string, Region>, usable: (route: Route) => boolean): Map<string, number> {
+    const depths = new Map<string, number>();
+    let frontier = (island.starting_routes ?? []).filter(usable).map(r => r.destination_name);
+    for (let depth = 0; frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const name of frontier) {
+            const region = byName.get(name);
+            if (!region || depths.has(name)) continue;
+            depths.set(name, depth);
+            next.push(...regionRoutes(region).map(r => r.route).filter(usable).map(r => r.destination_name));
+        }
+        frontier = next;
+    }
+    return depths;
+}
+
+/** Hostile, living beings in a region or geo feature, its buildings and (for a region) its geo features */
+function hostilesOf(holder: Region | GeoFeature): Located<Being>[] {
+    const beings: Located<Being>[] = (holder.fauna ?? []).map(item => ({ item }));
+    for (const building of holder.buildings ?? []) {
+        beings.push(...(building.inhabitants ?? []).map(item => ({ item, place: building.building_name })));
+    }
+    if ("region_name" in holder) {
+        for (const feature of geoFeatures(holder)) {
+            beings.push(...hostilesOf(feature).map(({ item, place }) => ({ item, place: place ?? feature.feature_name })));
+        }
+    }
+    return beings.filter(({ item }) => item.demeanor === "Hostile" && item.alive !== false);
+}
+
+/** Artifacts lying around in a region or geo feature, in its buildings and (for a region) its geo features */
+function artifactsOf(holder: Region | GeoFeature): Located<Artifact>[] {
+    const artifacts: Located<Artifact>[] = (holder.artifacts ?? []).map(item => ({ item }));
+    for (const building of holder.buildings ?? []) {
+        artifacts.push(...(building.artifacts ?? []).map(item => ({ item, place: building.building_name })));
+    }
+    if ("region_name" in holder) {
+        for (const feature of geoFeatures(holder)) {
+            artifacts.push(...artifactsOf(feature).map(({ item, place }) => ({ item, place: place ?? feature.feature_name })));
+        }
+    }
+    return artifacts;
+}
+
+/** Hostiles with their threat, the most dangerous first */
+function rankHostiles(hostiles: Located<Being>[]): (Located<Being> & { threat: number })[] {
+    return hostiles.map(h => ({ ...h, threat: threatOf(h.item) })).sort((a, b) => b.threat - a.threat);
+}
+
+function lootValue(artifacts: Located<Artifact>[]): number {
+    return artifacts.reduce((sum, a) => sum + finite(a.item.value), 0);
+}
+
+function threatOf(being: Being): number {
+    return (strengthThreat[being.strength] ?? strengthThreat.average) * (intelligenceFactor[being.intelligence] ?? 1);
+}
+
+/** Artifact values far from the rest of the island's, and important artifacts worth less than minor ones */
+function lootValueIssues(regions: Region[], ratio: number): BalanceIssue[] {
+    const issues: BalanceIssue[] = [];
+    const all = regions.flatMap(region => artifactsOf(region).map(a => ({ ...a, region: region.region_name })));
+    const values = all.map(a => finite(a.item.value)).filter(v => v > 0).sort((a, b) => a - b);
+    if (values.length === 0) return issues;
+    const median = values[Math.floor(values.length / 2)];
+
+    for (const { item, place, region } of all) {
+        const value = finite(item.value);
+        if (value <= 0) {
+            issues.push({
+                kind: "loot_outlier",
+                severity: "warning",
+                region,
+                message: `${describeArtifact(item, place)} in "${region}" is worth ${value}; every artifact should have a positive value.`
+            });
+        } else if (values.length >= 3 && (value > median * ratio || value * ratio < median)) {
+            issues.push({
+                kind: "loot_outlier",
+                severity: "warning",
+                region,
+                message: `${describeArtifact(item, place)} in "${region}" is worth ${value}, far from the island's typical artifact value of ${median}.`
+            });
+        }
+    }
+
+    const minor = all.filter(a => a.item.significance === "minor").map(a => finite(a.item.value));
+    const topMinor = minor.length > 0 ? Math.max(...minor) : undefined;
+    for (const { item, place, region } of all) {
+        if (topMinor !== undefined && item.significance === "important" && finite(item.value) < topMinor) {
+            issues.push({
+                kind: "loot_inversion",
+                severity: "warning",
+                region,
+                message: `${describeArtifact(item, place)} in "${region}" is important but worth ${item.value}, less than a minor artifact worth ${topMinor}.`
+            });
+        }
+    }
+    return issues;
+}
+
+// ===== 🔷 Helpers =====
+
+function describeBeing(being: Being, place?: string): string {
+    const name = "human_name" in being ? String(being.human_name) : "species" in being ? String(being.species) : "creature";
+    return `${being.strength} ${name}${place !== undefined ? ` in ${place}` : ""}`;
+}
+
+function describeArtifact(artifact: Artifact, place?: string): string {
+    return `"${artifact.name}"${place !== undefined ? ` (in ${place})` : ""}`;
+}
+
+function round(n: number): number {
+    return Math.round(n * 100) / 100;
+}
+
+function finite(n: number): number {
+    return Number.isFinite(n) ? n : 0;
+}
@@ -0,0 +1,698 @@
+#!/usr/bin/env node
+// cli.ts
+// Headless mythographer: generate, modify, validate, repair and export islands without the WebSocket server,
+// for scripted pipelines, write dialogue trees for their humans, evaluate the prompts against a suite of golden
+// prompts, and migrate saved islands to the current schema. Run with no arguments for usage.
+//
+// Results go to stdout (or -o), and progress goes to stderr as "[stage] message" lines, the same stages the server
+// sends as status events, so commands compose in pipelines. "-" as an island file reads it from stdin.
+//
+// Exit codes: 0 ok; 1 the island (or dialogue) is (still) invalid; 2 bad usage; 3 something failed (the model, a file).
+// An island that's still invalid after repair is written out anyway, like the server's result_partial.
+// Island files from an older schema are upgraded as they're read; `migrate` upgrades them on disk.
+
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+
+import { createTypeScriptJsonValidator } from "typechat/ts";
+import { createFixtureLanguageModel, createModelFromEnv, createRecordingLanguageModel, FixtureMatchMode } from "./model_providers";
+import { createMythographer, repairUntilValid, Mythographer, MythosLanguageModel } from "./mythographer";
+import { Island } from "./io_schema";
+import { Dialogue } from "./dialogue_schema";
+import { createDialogueValidator, findDialogueGraphProblems, validateIsland } from "./island_validator";
+import { createSchemaModel } from "./schema_model";
+import { createLocalRepair, withRouteRepair } from "./local_repair";
+import { checkLockPointers, describeLocks, restoreLocks } from "./locks";
+import { applyPatch } from "./json_patch";
+import { findLayoutProblems, layoutIsland, pinnedRegions, unmovedRegions } from "./layout";
+import { exportRouteGraph } from "./route_graph";
+import { describeDialogueContext, exportDialogue, findSpeaker, DialogueFormat } from "./dialogue";
+import { rasterizeTerrain, encodeHeightmap, encodeSplatmap } from "./terrain";
+import { migrateIsland, SCHEMA_VERSION } from "./migrate";
+import { createMeteredModel, EvalCase, EvalCaseResult, EvalMode, EvalReport, findRegressions, formatEvalReport, parseSuite, summarizeEval } from "./eval";
+
+dotenv.config({ quiet: true });     // stdout is for results
+
+const USAGE = `Usage: mythographer <command> [options]
+
+Commands:
+  generate "<prompt>"                  Generate an island from a prompt
+  modify <island.json> "<prompt>"      Modify an island
+  validate <island.json>               Check an island against the schema, its route graph and its layout
+  repair <island.json>                 Fix an invalid island, locally where possible and with the model otherwise
+  export <island.json> -f <format>     Export as dot, mermaid, heightmap or splatmap
+  export <dialogue.json> -f <format>   Export a dialogue as an ink or yarn script
+  dialogue <island.json> "<human_name>" ["<prompt>"]
+                                       Write a dialogue tree for one of the island's humans
+  batch <prompts.txt>                  Generate an island per line of a file (blank lines and # comments skipped)
+  eval <suite.json>                    Run a suite of golden prompts and report validity, repairs, latency and tokens
+  migrate <island.json | dir>          Upgrade an island, or an island store record, to the current schema;
+                                       given a directory, upgrades every json file in it in place
+
+Options:
+  -o, --output <file>     Write the result to a file instead of stdout
+  -d, --dir <dir>         batch: directory to write the islands to (default: current directory)
+  -f, --format <format>   export: dot | mermaid | heightmap | splatmap | ink | yarn
+                          dialogue: ink | yarn to write a script instead of json
+      --raw               export: raw samples instead of png for heightmap and splatmap
+      --resolution <n>    export: heightmap and splatmap size in pixels (default 513)
+      --seed <seed>       export: terrain noise seed (default: the island name)
+      --lock <pointer>    modify: JSON pointer the model must not change; repeatable
+      --patch             modify: ask the model for a JSON Patch instead of a whole island
+      --record <dir>      eval: save the model's responses to dir, a subdirectory per case
+      --replay <dir>      eval: replay responses saved with --record instead of calling the model
+      --match <mode>      eval: replay responses by prompt (default) or in sequence, for changed prompts
+      --baseline <file>   eval: compare with an earlier --json report; regressions exit with 1
+      --json              eval: write the report as json
+  -q, --quiet             No progress output
+  -h, --help              Show this help
+
+Model settings come from the environment (or .env), as for the server: MYTHOS_PROVIDER and friends.
+Exit codes: 0 ok, 1 invalid island or dialogue (eval: an invalid case, or a regression; migrate: something
+couldn't be upgraded), 2 usage error, 3 failure.`;
+
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILURE = 3;
+
+const MAX_REPAIRS = 3;
+
+// a closed pipe (mythographer export ... | head) just means nobody wants the rest
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code !== "EPIPE") throw err;
+  process.exit(process.exitCode ?? EXIT_OK);
+});
+
+type Options = {
+  output?: string;
+  dir?: string;
+  format?: string;
+  raw: boolean;
+  resolution?: number;
+  seed?: string;
+  locks: string[];
+  patch: boolean;
+  record?: string;
+  replay?: string;
+  match?: FixtureMatchMode;
+  baseline?: string;
+  json: boolean;
+  quiet: boolean;
+};
+
+/** A failure that ends the command with the given exit code and message */
+class CliError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+  }
+}
+
+/** An island after validation and repair; valid false means repair gave up and `message` says why */
+type Outcome = { data: Island; valid: boolean; repairs: number; message?: string };
+
+// ------------------------ Commands ------------------------
+
+async function main(argv: string[]): Promise<number> {
+  const { args, options } = parseArgs(argv);
+  const [command, ...rest] = args;
+  const status = (stage: string, message: string) => {
+    if (!options.quiet) process.stderr.write(`[${stage}] ${message}\n`);
+  };
+
+  switch (command) {
+    case "generate": {
+      const [prompt] = expectArgs(rest, 1, "generate \"<prompt>\"");
+      const outcome = await generate(prompt, status);
+      writeOutput(options.output, JSON.stringify(outcome.data, null, 2) + "\n");
+      return report(outcome, status);
+    }
+
+    case "modify": {
+      const [file, prompt] = expectArgs(rest, 2, "modify <island.json> \"<prompt>\"");
+      const lockError = checkLockPointers(options.locks);
+      if (lockError) throw new CliError(lockError, EXIT_USAGE);
+      const outcome = await modify(readIsland(file, status), prompt, options, status);
+      writeOutput(options.output, JSON.stringify(outcome.data, null, 2) + "\n");
+      return report(outcome, status);
+    }
+
+    case "validate": {
+      const [file] = expectArgs(rest, 1, "validate <island.json>");
+      const island = readIsland(file, status);
+      const validation = getValidator().json_is_valid(island);
+      if (!validation.success) {
+        process.stdout.write(`Invalid: ${validation.message}\n`);
+        return EXIT_INVALID;
+      }
+      // layout problems are warnings: repair lays the regions out
+      const warnings = findLayoutProblems(island);
+      process.stdout.write(`Valid.\n${warnings.map(w => `Layout: ${w}\n`).join("")}`);
+      return EXIT_OK;
+    }
+
+    case "repair": {
+      const [file] = expectArgs(rest, 1, "repair <island.json>");
+      const outcome = await validateAndRepair(getTranslator(), readIsland(file, status), status);
+      writeOutput(options.output, JSON.stringify(outcome.data, null, 2) + "\n");
+      return report(outcome, status);
+    }
+
+    case "export": {
+      const [file] = expectArgs(rest, 1, "export <island.json | dialogue.json> -f <format>");
+      if (isDialogueFormat(options.format)) {
+        writeOutput(options.output, exportDialogue(readDialogue(file), options.format));
+        return EXIT_OK;
+      }
+      const island = readIsland(file, status);
+      const terrainOptions = {
+        ...(options.resolution !== undefined ? { resolution: options.resolution } : {}),
+        ...(options.seed !== undefined ? { seed: /^\d+$/.test(options.seed) ? Number(options.seed) : options.seed } : {})
+      };
+      const format = options.raw ? "raw" : "png";
+      switch (options.format) {
+        case "dot":
+        case "mermaid":
+          writeOutput(options.output, exportRouteGraph(island, options.format));
+          break;
+        case "heightmap":
+          writeOutput(options.output, encodeHeightmap(rasterizeTerrain(island, terrainOptions), format));
+          break;
+        case "splatmap":
+          writeOutput(options.output, encodeSplatmap(rasterizeTerrain(island, terrainOptions), format));
+          break;
+        default:
+          throw new CliError("export needs -f dot, mermaid, heightmap or splatmap for an island, or ink or yarn for a dialogue.", EXIT_USAGE);
+      }
+      return EXIT_OK;
+    }
+
+    case "dialogue": {
+      if (rest.length < 2 || rest.length > 3) throw new CliError(`Usage: mythographer dialogue <island.json> "<human_name>" ["<prompt>"]`, EXIT_USAGE);
+      const [file, humanName, prompt] = rest;
+      const format = options.format;
+      if (format !== undefined && !isDialogueFormat(format)) throw new CliError("dialogue takes -f ink or yarn, or no -f for json.", EXIT_USAGE);
+      const island = readIsland(file, status);
+      const speaker = findSpeaker(island, humanName);
+      if (!speaker.success) throw new CliError(speaker.message, EXIT_USAGE);
+
+      const dialogueTranslator = createDialogueTranslator(getModel(), createDialogueValidator(island, humanName));
+      const preamble = describeDialogueContext(island, speaker.data);
+      status("received", "Prompt received.");
+      status("generating", `Writing ${humanName}'s dialogue...`);
+      const result = await dialogueTranslator.translate(prompt ?? `Write ${humanName}'s dialogue.`, preamble);
+      if (!result.success) throw new CliError(result.message, EXIT_FAILURE);
+      status("validating", "Validating the dialogue graph");
+      const outcome = await repairUntilValid(dialogueTranslator, result.data, MAX_REPAIRS, preamble);
+      writeOutput(options.output, format !== undefined
+        ? exportDialogue(outcome.data, format, speaker.data.being)
+        : JSON.stringify(outcome.data, null, 2) + "\n");
+      if (outcome.valid) return EXIT_OK;
+      status("partial", outcome.message ?? "The dialogue is still invalid.");
+      return EXIT_INVALID;
+    }
+
+    case "batch": {
+      const [file] = expectArgs(rest, 1, "batch <prompts.txt>");
+      const prompts = readInput(file).split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith("#"));
+      const dir = options.dir ?? ".";
+      fs.mkdirSync(dir, { recursive: true });
+      let exitCode = EXIT_OK;
+      for (const [i, prompt] of prompts.entries()) {
+        status("batch", `${i + 1}/${prompts.length}: ${prompt}`);
+        const name = path.join(dir, `${String(i + 1).padStart(3, "0")}-${slug(prompt)}.json`);
+        try {
+          const outcome = await generate(prompt, status);
+          fs.writeFileSync(name, JSON.stringify(outcome.data, null, 2) + "\n", "utf8");
+          status("batch", `Wrote ${name}`);
+          if (report(outcome, status) !== EXIT_OK) exitCode = Math.max(exitCode, EXIT_INVALID);
+        } catch (err: any) {
+          status("error", err.message);
+          exitCode = EXIT_FAILURE;
+        }
+      }
+      return exitCode;
+    }
+
+    case "eval": {
+      const [file] = expectArgs(rest, 1, "eval <suite.json>");
+      if (options.record !== undefined && options.replay !== undefined) {
+        throw new CliError("eval takes --record or --replay, not both.", EXIT_USAGE);
+      }
+      const suite = parseSuite(readInput(file));
+      if (!suite.success) throw new CliError(`${file}: ${suite.message}`, EXIT_USAGE);
+      const baseline = options.baseline !== undefined ? readReport(options.baseline) : undefined;
+      const mode: EvalMode = options.record !== undefined ? "record" : options.replay !== undefined ? "replay" : "live";
+      const results: EvalCaseResult[] = [];
+      for (const [i, testCase] of suite.data.cases.entries()) {
+        status("eval", `${i + 1}/${suite.data.cases.length}: ${testCase.id}`);
+        const result = await evaluate(testCase, path.dirname(file === "-" ? "." : file), options, status);
+        status("eval", `${testCase.id}: ${result.valid ? "valid" : "invalid"}, ${result.repairs} repairs, ${result.latency_ms}ms, ${result.tokens.total} tokens`);
+        results.push(result);
+      }
+      const report: EvalReport = {
+        suite: suite.data.name ?? path.basename(file, ".json"),
+        mode,
+        date: new Date().toISOString(),
+        results,
+        summary: summarizeEval(results)
+      };
+      writeOutput(options.output, options.json ? JSON.stringify(report, null, 2) + "\n" : formatEvalReport(report, baseline));
+      if (baseline) return findRegressions(baseline, report).length > 0 ? EXIT_INVALID : EXIT_OK;
+      return results.every(r => r.valid) ? EXIT_OK : EXIT_INVALID;
+    }
+
+    case "migrate": {
+      const [target] = expectArgs(rest, 1, "migrate <island.json | dir>");
+      if (target !== "-" && isDirectory(target)) {
+        if (options.output !== undefined) throw new CliError("migrate rewrites a directory's files in place; -o is for a single file.", EXIT_USAGE);
+        return migrateDirectory(target, status);
+      }
+      const migrated = migrateDocument(target === "-" ? "stdin" : target, readJson(target), status);
+      writeOutput(options.output, JSON.stringify(migrated.document, null, 2) + "\n");
+      return migrated.unresolved > 0 ? EXIT_INVALID : EXIT_OK;
+    }
+
+    case undefined:
+    case "help":
+      process.stdout.write(USAGE + "\n");
+      return command === undefined ? EXIT_USAGE : EXIT_OK;
+
+    default:
+      throw new CliError(`Unknown command '${command}'.`, EXIT_USAGE);
+  }
+}
+
+async function generate(prompt: string, status: (stage: string, message: string) => void): Promise<Outcome> {
+  const translator = getTranslator();
+  status("received", "Prompt received.");
+  status("translating", "Starting translation to schema...");
+  const result = await translator.translate(prompt);
+  if (!result.success) throw new CliError(result.message, EXIT_FAILURE);
+  return validateAndRepair(translator, result.data, status);
+}
+
+async function modify(previous: Island, prompt: string, options: Options, status: (stage: string, message: string) => void): Promise<Outcome> {
+  const translator = getTranslator();
+  status("received", "Prompt received.");
+  status("modifying", "Starting modification to schema...");
+  const result = await requestModification(translator, previous, prompt, options.locks, options.patch);
+  if (!result.success) throw new CliError(result.message, EXIT_FAILURE);
+  const locks = options.locks.length > 0 ? { previous, pointers: options.locks } : undefined;
+  return validateAndRepair(translator, result.data, status, locks, previous);
+}
+
+/** Asks the model for a modified island, whole or as a patch applied to the previous one */
+async function requestModification(translator: Mythographer<Island>, previous: Island, prompt: string, locks: string[], patch: boolean) {
+  const preamble = locks.length > 0 ? describeLocks(previous, locks) : undefined;
+  if (patch) {
+    const ops = await translator.modifyPatch(previous, prompt, preamble);
+    return ops.success ? applyPatch(previous, ops.data) : ops;
+  }
+  return translator.modify(previous, prompt, preamble);
+}
+
+/**
+ * Runs one eval case with its own model, so each case records to and replays from its own fixture directory.
+ * The first response is checked as the model gave it, then goes through the usual validation and repair.
+ */
+async function evaluate(testCase: EvalCase, suiteDir: string, options: Options, status: (stage: string, message: string) => void): Promise<EvalCaseResult> {
+  const start = Date.now();
+  const result: EvalCaseResult = {
+    id: testCase.id,
+    kind: testCase.island !== undefined ? "modify" : "generate",
+    responded: false,
+    schema_valid: false,
+    valid: false,
+    repairs: 0,
+    latency_ms: 0,
+    model_calls: 0,
+    model_latency_ms: 0,
+    tokens: { prompt: 0, completion: 0, total: 0 }
+  };
+
+  let model: MythosLanguageModel;
+  try {
+    model = evalModel(testCase.id, options);
+  } catch (err: any) {
+    // a case that was never recorded fails on its own; a model that can't be configured fails them all
+    if (options.replay === undefined) throw err;
+    return { ...result, error: err.message };
+  }
+  const meter = createMeteredModel(model);
+  const translator = createIslandTranslator(meter.model);
+
+  try {
+    let first;
+    let locks: { previous: Island; pointers: string[] } | undefined;
+    let base: Island | undefined;
+    if (testCase.island !== undefined) {
+      const previous = readIsland(path.resolve(suiteDir, testCase.island));
+      const pointers = testCase.locks ?? [];
+      const lockError = checkLockPointers(pointers);
+      if (lockError) throw new CliError(lockError, EXIT_USAGE);
+      if (pointers.length > 0) locks = { previous, pointers };
+      base = previous;
+      first = await requestModification(translator, previous, testCase.prompt, pointers, testCase.patch ?? false);
+    } else {
+      first = await translator.translate(testCase.prompt);
+    }
+
+    if (!first.success) {
+      result.error = first.message;
+    } else {
+      result.responded = true;
+      const schema = translator.json_is_schema_valid(first.data);
+      result.schema_valid = schema.success;
+      if (schema.success) result.semantic_valid = translator.validateInstance(schema.data).success;
+      const outcome = await validateAndRepair(translator, first.data, status, locks, base);
+      result.valid = outcome.valid;
+      result.repairs = outcome.repairs;
+      if (outcome.message !== undefined) result.error = outcome.message;
+    }
+  } catch (err: any) {
+    result.error = err.message;
+  }
+
+  const reading = meter.take();
+  result.latency_ms = Date.now() - start - reading.measured_ms + reading.latency_ms;
+  result.model_calls = reading.calls;
+  result.model_latency_ms = reading.latency_ms;
+  result.tokens = reading.tokens;
+  return result;
+}
+
+/** The model for an eval case: replayed from its fixtures, or the configured model, recorded if asked */
+function evalModel(id: string, options: Options): MythosLanguageModel {
+  try {
+    if (options.replay !== undefined) {
+      return createFixtureLanguageModel(path.join(options.replay, id), options.match ?? "prompt");
+    }
+    const model = createModelFromEnv(process.env);
+    if (options.record === undefined) return model;
+    // a fresh recording, so the fixtures replay in sequence too
+    const dir = path.join(options.record, id);
+    fs.rmSync(dir, { recursive: true, force: true });
+    return createRecordingLanguageModel(model, dir);
+  } catch (err: any) {
+    throw new CliError(options.replay !== undefined ? err.message : `Could not configure language model: ${err.message}`, EXIT_FAILURE);
+  }
+}
+
+/**
+ * The server's validation loop: schema and semantic checks, local fixes, the layout pass, and up to
+ * MAX_REPAIRS model repairs. Locked values the model changes are put back after every step.
+ * A modification of `base` only lays out the regions it added or moved, and isn't repaired for layout problems
+ * `base` already had.
+ */
+async function validateAndRepair(translator: Mythographer<Island>, island: Island, status: (stage: string, message: string) => void,
+  locks?: { previous: Island; pointers: string[] }, base?: Island): Promise<Outcome> {
+  const enforce = (data: Island) => locks ? restoreLocks(locks.previous, data, locks.pointers).data : data;
+  let current = enforce(island);
+
+  for (let attempt = 1; ; attempt++) {
+    status("validating", `Validating schema and world graph (attempt ${attempt})`);
+    let validation = translator.json_is_valid(current);
+    if (!validation.success) {
+      const local = translator.repairLocally(current);
+      if (local.fixes.length > 0) {
+        status("repair", `Applied ${local.fixes.length} local fixes`);
+        current = enforce(local.data);
+        validation = translator.json_is_valid(current);
+      }
+    }
+    if (validation.success) {
+      const pinned = [...pinnedRegions(current, locks?.pointers ?? []), ...(base ? unmovedRegions(base, current) : [])];
+      const layout = layoutIsland(current, { pinned });
+      current = layout.data;
+      const known = new Set(base ? findLayoutProblems(base, new Set(pinned)) : []);
+      const unsolved = layout.unsatisfied.filter(problem => !known.has(problem));
+      if (layout.moved.length > 0 || layout.unsatisfied.length > 0) {
+        status("layout", `Laid out ${layout.moved.length} regions` +
+          (layout.unsatisfied.length > 0 ? `; ${layout.unsatisfied.length} layout problems left` : ""));
+      }
+      if (unsolved.length === 0 || attempt > MAX_REPAIRS) {
+        return { data: current, valid: true, repairs: attempt - 1 };
+      }
+      validation = { success: false, message: unsolved.join("\n") };
+    }
+    if (attempt > MAX_REPAIRS) {
+      return { data: current, valid: false, repairs: attempt - 1, message: `Max repair attempts reached. Last error: ${validation.message}` };
+    }
+
+    status("repair", `Repairing (${attempt}/${MAX_REPAIRS}): ${validation.message}`);
+    const preamble = locks ? describeLocks(locks.previous, locks.pointers) : undefined;
+    const repaired = await translator.repair(current, validation.message, preamble);
+    if (!repaired.success) {
+      return { data: current, valid: false, repairs: attempt, message: `Repair ${attempt} failed: ${repaired.message}` };
+    }
+    current = enforce(repaired.data);
+  }
+}
+
+/** The exit code for an outcome, reporting a partial result */
+function report(outcome: Outcome, status: (stage: string, message: string) => void): number {
+  if (outcome.valid) return EXIT_OK;
+  status("partial", outcome.message ?? "The island is still invalid.");
+  return EXIT_INVALID;
+}
+
+/**
+ * Upgrades a saved island, or an island store record with every version in it, to the current schema.
+ * Reports each change, and anything that couldn't be upgraded, through `status`.
+ */
+function migrateDocument(name: string, json: unknown, status: (stage: string, message: string) => void):
+  { document: unknown; changed: boolean; unresolved: number } {
+  if (json === null || typeof json !== "object") throw new CliError(`${name} is not an island or an island store record.`, EXIT_FAILURE);
+  const versions = (json as { versions?: unknown }).versions;
+  const islands: { label: string; data: object; replace(island: Island): void }[] = Array.isArray(versions)
+    ? versions.map((v, i) => ({ label: `version ${v?.version ?? i + 1}: `, data: v?.data, replace: (island: Island) => { v.data = island; } }))
+    : [{ label: "", data: json, replace: () => {} }];
+  let document: unknown = json;
+  let changed = false;
+  let unresolved = 0;
+  for (const { label, data, replace } of islands) {
+    const migrated = migrateIsland(data);
+    if (!migrated.success) throw new CliError(`${name}: ${label}${migrated.message}`, EXIT_FAILURE);
+    const { island, from, to, changes } = migrated.data;
+    if (from === to) continue;
+    changes.forEach(change => status("migrate", `${label}${change}`));
+    migrated.data.unresolved.forEach(problem => status("unresolved", `${label}${problem}`));
+    unresolved += migrated.data.unresolved.length;
+    changed = true;
+    if (Array.isArray(versions)) replace(island);
+    else document = island;
+  }
+  return { document, changed, unresolved };
+}
+
+/** Upgrades every json file in a directory in place, like an island store's */
+function migrateDirectory(dir: string, status: (stage: string, message: string) => void): number {
+  const files = fs.readdirSync(dir).filter(name => name.endsWith(".json")).sort();
+  let exitCode = EXIT_OK;
+  let upgraded = 0;
+  for (const name of files) {
+    const file = path.join(dir, name);
+    try {
+      const migrated = migrateDocument(file, readJson(file), (stage, message) => status(stage, `${name}: ${message}`));
+      if (migrated.unresolved > 0) exitCode = Math.max(exitCode, EXIT_INVALID);
+      if (!migrated.changed) continue;
+      const temp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify(migrated.document, null, 2) + "\n", "utf8");
+      fs.renameSync(temp, file);
+      upgraded++;
+    } catch (err: any) {
+      status("error", err.message);
+      exitCode = EXIT_FAILURE;
+    }
+  }
+  status("migrate", `Upgraded ${upgraded} of ${files.length} file${files.length === 1 ? "" : "s"} to schema version ${SCHEMA_VERSION}.`);
+  return exitCode;
+}
+
+// ------------------------ Setup ------------------------
+
+// The translator is only set up when a command needs it, so validate and export work without model settings
+let translator: Mythographer<Island> | undefined;
+
+function getTranslator(): Mythographer<Island> {
+  if (!translator) {
+    translator = createIslandTranslator(getModel());
+  }
+  return translator;
+}
+
+function getModel(): MythosLanguageModel {
+  try {
+    return createModelFromEnv(process.env);
+  } catch (err: any) {
+    throw new CliError(`Could not configure language model: ${err.message}`, EXIT_FAILURE);
+  }
+}
+
+/** A translator for validation only; it never calls its model */
+function getValidator(): Mythographer<Island> {
+  return translator ?? createIslandTranslator({ complete: async () => ({ success: false, message: "No model configured." }) });
+}
+
+/** The same Island translator the server uses: schema, semantic checks and local repair */
+function createIslandTranslator(model: Parameters<typeof createMythographer>[0]): Mythographer<Island> {
+  const schema = fs.readFileSync(path.join(__dirname, "io_schema.ts"), "utf8");
+  const islandTranslator = createMythographer(model, createTypeScriptJsonValidator<Island>(schema, "Island"));
+  islandTranslator.validateInstance = validateIsland;
+  islandTranslator.repairLocally = withRouteRepair(createLocalRepair<Island>(createSchemaModel(schema), "Island"));
+  return islandTranslator;
+}
+
+/**
+ * A Dialogue translator, with the dialogue sub-schema appended to io_schema.ts as on the server.
+ * `validateInstance` decides how much beyond the schema it checks: the graph alone, or against an island too.
+ */
+function createDialogueTranslator(model: Parameters<typeof createMythographer>[0], validateInstance: Mythographer<Dialogue>["validateInstance"]): Mythographer<Dialogue> {
+  const schema = fs.readFileSync(path.join(__dirname, "io_schema.ts"), "utf8") + "\n" +
+    fs.readFileSync(path.join(__dirname, "dialogue_schema.ts"), "utf8").split("\n").filter(line => !line.startsWith("import ")).join("\n");
+  const dialogueTranslator = createMythographer(model, createTypeScriptJsonValidator<Dialogue>(schema, "Dialogue"));
+  dialogueTranslator.validateInstance = validateInstance;
+  dialogueTranslator.repairLocally = createLocalRepair<Dialogue>(createSchemaModel(schema), "Dialogue");
+  return dialogueTranslator;
+}
+
+// ------------------------ Arguments and files ------------------------
+
+function parseArgs(argv: string[]): { args: string[]; options: Options } {
+  const args: string[] = [];
+  const options: Options = { raw: false, locks: [], patch: false, json: false, quiet: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new CliError(`${arg} needs a value.`, EXIT_USAGE);
+      return next;
+    };
+    switch (arg) {
+      case "-o": case "--output": options.output = value(); break;
+      case "-d": case "--dir": options.dir = value(); break;
+      case "-f": case "--format": options.format = value(); break;
+      case "--raw": options.raw = true; break;
+      case "--resolution": {
+        const resolution = Number(value());
+        if (!Number.isInteger(resolution)) throw new CliError("--resolution must be an integer.", EXIT_USAGE);
+        options.resolution = resolution;
+        break;
+      }
+      case "--seed": options.seed = value(); break;
+      case "--lock": options.locks.push(value()); break;
+      case "--patch": options.patch = true; break;
+      case "--record": options.record = value(); break;
+      case "--replay": options.replay = value(); break;
+      case "--match": {
+        const match = value();
+        if (match !== "prompt" && match !== "sequence") throw new CliError("--match must be prompt or sequence.", EXIT_USAGE);
+        options.match = match;
+        break;
+      }
+      case "--baseline": options.baseline = value(); break;
+      case "--json": options.json = true; break;
+      case "-q": case "--quiet": options.quiet = true; break;
+      case "-h": case "--help": args.unshift("help"); break;
+      default:
+        if (arg.startsWith("-") && arg !== "-") throw new CliError(`Unknown option '${arg}'.`, EXIT_USAGE);
+        args.push(arg);
+    }
+  }
+  return { args, options };
+}
+
+function expectArgs(args: string[], count: number, usage: string): string[] {
+  if (args.length !== count) throw new CliError(`Usage: mythographer ${usage}`, EXIT_USAGE);
+  return args;
+}
+
+function readInput(file: string): string {
+  try {
+    return fs.readFileSync(file === "-" ? 0 : file, "utf8");
+  } catch (err: any) {
+    throw new CliError(`Could not read ${file === "-" ? "stdin" : file}: ${err.message}`, EXIT_FAILURE);
+  }
+}
+
+function readJson(file: string): unknown {
+  const text = readInput(file);
+  try {
+    return JSON.parse(text);
+  } catch (err: any) {
+    throw new CliError(`${file === "-" ? "stdin" : file} is not valid JSON: ${err.message}`, EXIT_FAILURE);
+  }
+}
+
+/** Reads an island, upgrading it to the current schema if it's from an older one */
+function readIsland(file: string, status?: (stage: string, message: string) => void): Island {
+  const name = file === "-" ? "stdin" : file;
+  const migrated = migrateIsland(readJson(file) as object);
+  if (!migrated.success) throw new CliError(`${name}: ${migrated.message}`, EXIT_FAILURE);
+  const { island, from, to } = migrated.data;
+  if (from !== to) status?.("migrate", `${name} is from schema version ${from}; upgraded it to ${to}.`);
+  return island;
+}
+
+/** Reads a dialogue, checking its shape and graph; it has no island to check the rest against */
+function readDialogue(file: string): Dialogue {
+  const name = file === "-" ? "stdin" : file;
+  const json = readJson(file);
+  const noModel: MythosLanguageModel = { complete: async () => ({ success: false, message: "No model configured." }) };
+  const checked = createDialogueTranslator(noModel, dialogue => {
+    const problems = findDialogueGraphProblems(dialogue);
+    return problems.length > 0 ? { success: false, message: problems.join("\n") } : { success: true, data: dialogue };
+  }).json_is_valid(json as object);
+  if (!checked.success) throw new CliError(`${name} is not a usable dialogue:\n${checked.message}`, EXIT_INVALID);
+  return checked.data;
+}
+
+function isDialogueFormat(format: unknown): format is DialogueFormat {
+  return format === "ink" || format === "yarn";
+}
+
+function isDirectory(file: string): boolean {
+  try {
+    return fs.statSync(file).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function readReport(file: string): EvalReport {
+  const text = readInput(file);
+  try {
+    const report = JSON.parse(text) as EvalReport;
+    if (!Array.isArray(report.results) || !report.summary) throw new Error("not an eval report (write one with --json)");
+    return report;
+  } catch (err: any) {
+    throw new CliError(`${file} is not a usable baseline: ${err.message}`, EXIT_USAGE);
+  }
+}
+
+function writeOutput(file: string | undefined, data: string | Buffer) {
+  if (file === undefined) {
+    process.stdout.write(data);
+    return;
+  }
+  try {
+    fs.writeFileSync(file, data);
+  } catch (err: any) {
+    throw new CliError(`Could not write ${file}: ${err.message}`, EXIT_FAILURE);
+  }
+}
+
+/** A file name friendly version of a prompt: "A volcanic island!" -> "a-volcanic-island" */
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "island";
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  (err: any) => {
+    process.stderr.write(`mythographer: ${err.message}\n`);
+    process.exitCode = err instanceof CliError ? err.exitCode : EXIT_FAILURE;
+  }
+);
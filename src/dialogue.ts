@@ -0,0 +1,215 @@
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+import { Human, Island } from "./io_schema";
+import { Dialogue, DialogueChoice, DialogueCondition } from "./dialogue_schema";
+import { collectFauna, geoFeatures, LocatedBeing } from "./island_validator";
+
+// NPC dialogue: the prompt context for writing a dialogue tree for one of an island's humans, and exporters
+// that turn the finished tree into a script for a game's narrative engine:
+//  - Ink: a knot per node, ending in -> END if it has no choices; choices are sticky (+), so a hub node can be
+//    come back to, and divert to the next knot
+//  - Yarn Spinner (2.x): a node per node, with choices as options (->) that <<jump>> to the next node
+// The start node comes first in both. Conditions and demeanor shifts become variables for the game to keep:
+//   has_<artifact>                  true while niala carries the artifact
+//   quest_<quest>                   "not_started", "active" or "completed"
+//   <speaker>_demeanor              the speaker's demeanor, set by shifts that change it
+//   <speaker>_demeanor_strength     the speaker's demeanor_strength, which shifts add to
+// The demeanor variables start at the speaker's values on the island when the export is given them, and at
+// "Neutral" and 0 otherwise.
+
+export type DialogueFormat = "ink" | "yarn";
+
+/** A human and where they live */
+export type Speaker = LocatedBeing & { being: Human };
+
+/**
+ * Finds the human a dialogue is for, by human_name.
+ */
+export function findSpeaker(island: Island, humanName: string): Result<Speaker> {
+    const humans = collectFauna(island).filter((located): located is Speaker => located.being.kind === "human");
+    const speaker = humans.find(located => located.being.human_name === humanName);
+    if (!speaker) {
+        const names = humans.map(located => `"${located.being.human_name}"`);
+        return error(`"${humanName}" is not the human_name of any human on "${island.island_name}". Humans are: ${names.join(", ") || "(none)"}.`);
+    }
+    return success(speaker);
+}
+
+/**
+ * The prompt preamble for writing a dialogue tree for a human: who they are, the building, region and island
+ * they live in, the people around them, and the artifacts and quests the dialogue's conditions can name.
+ */
+export function describeDialogueContext(island: Island, speaker: Speaker): string {
+    const { being: human, region, feature, building } = speaker;
+    const lines = [
+        `You are writing the dialogue tree for ${human.human_name}, a ${human.character_class} on the island "${island.island_name}", ` +
+            `for when niala, the player, talks to them.`,
+        `The island: ${island.story_context} Niala's goal: ${island.goal}`,
+        `${human.human_name} lives in ${region.region_name} (${region.topography} ${region.biome}, ${region.weather} ${region.time}): ${region.story}`
+    ];
+    if (feature) lines.push(`At ${feature.feature_name}, a ${feature.feature_type}: ${feature.background}`);
+    if (building) {
+        lines.push(`In ${building.building_name}, a ${building.size} ${building.material} ${building.building_type} ` +
+            `(${building.gameplay_purpose}): ${building.story}`);
+    }
+    lines.push(
+        `Current activity: ${human.current_activity}. Goal: ${human.intended_goal}. Backstory: ${human.backstory}`,
+        `Towards niala they are ${human.demeanor}, with demeanor_strength ${human.demeanor_strength}.`
+    );
+
+    const neighbours = collectFauna(island).filter(({ being, region: r, building: b }) =>
+        being !== human && r === region && (building === undefined || b === building));
+    if (neighbours.length > 0) {
+        lines.push(`Also here: ${neighbours.map(({ being }) => being.kind === "human"
+            ? `${being.human_name} (${being.character_class})` : `a ${being.demeanor.toLowerCase()} ${being.species}`).join(", ")}.`);
+    }
+
+    const artifacts: string[] = [];
+    for (const r of island.regions ?? []) {
+        for (const holder of [r, ...geoFeatures(r)]) {
+            (holder.artifacts ?? []).forEach(a => artifacts.push(`${a.name} (${r.region_name})`));
+            (holder.buildings ?? []).forEach(b => (b.artifacts ?? []).forEach(a => artifacts.push(`${a.name} (${b.building_name}, ${r.region_name})`)));
+        }
+    }
+    lines.push(`Artifacts niala can carry, for has_artifact and lacks_artifact conditions: ${artifacts.join(", ") || "(none)"}.`);
+
+    const quests = (island.quests ?? []).map(quest => {
+        const role = quest.giver === human.human_name ? `given by ${human.human_name}`
+            : `given by ${quest.giver}${quest.steps.some(step => step.target_human === human.human_name) ? `, with ${human.human_name} in it` : ""}`;
+        return `- ${quest.quest_name} (${role}): ${quest.summary}`;
+    });
+    lines.push(quests.length > 0 ? `Quests, for quest_state conditions:\n${quests.join("\n")}` : `The island has no quests, so use no quest_state conditions.`);
+
+    lines.push(
+        `Write ${human.human_name}'s lines in their own voice, from what they know and want. Start with a greeting, ` +
+        `let niala ask about what matters to them, and make sure every branch can reach a goodbye node with no choices. ` +
+        `Use conditions for lines that only make sense once niala has an artifact or has got somewhere in a quest, ` +
+        `and demeanor shifts where niala's answer would please or offend them. Refer to artifacts and quests by exactly these names.`
+    );
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Exports a dialogue as an Ink or Yarn Spinner script. `speaker` gives the demeanor variables their starting values.
+ */
+export function exportDialogue(dialogue: Dialogue, format: DialogueFormat, speaker?: Human): string {
+    return format === "ink" ? dialogueToInk(dialogue, speaker) : dialogueToYarn(dialogue, speaker);
+}
+
+export function dialogueToInk(dialogue: Dialogue, speaker?: Human): string {
+    const vars = variables(dialogue, speaker);
+    const lines = [`// Dialogue for ${dialogue.speaker}`];
+    for (const v of vars.declarations) lines.push(`VAR ${v.name} = ${v.initial}`);
+    lines.push("", `-> ${dialogue.start}`);
+
+    for (const node of orderedNodes(dialogue)) {
+        lines.push("", `=== ${node.node_id} ===`, `${escapeInk(dialogue.speaker)}: ${escapeInk(node.text)}`);
+        const choices = node.choices ?? [];
+        for (const choice of choices) {
+            const condition = (choice.conditions ?? []).length > 0 ? `{${choice.conditions!.map(c => conditionExpression(c)).join(" and ")}} ` : "";
+            const effects = shiftStatements(choice, vars);
+            if (effects.length === 0) {
+                lines.push(`+ ${condition}[${escapeInk(choice.text)}] -> ${choice.next}`);
+            } else {
+                lines.push(`+ ${condition}[${escapeInk(choice.text)}]`, ...effects.map(e => `    ~ ${e}`), `    -> ${choice.next}`);
+            }
+        }
+        if (choices.length === 0) lines.push("-> END");
+    }
+    return lines.join("\n") + "\n";
+}
+
+export function dialogueToYarn(dialogue: Dialogue, speaker?: Human): string {
+    const vars = variables(dialogue, speaker);
+    const nodes: string[] = [];
+    orderedNodes(dialogue).forEach((node, i) => {
+        const lines = [`title: ${node.node_id}`, "---"];
+        // declarations are global wherever they are; keep them with the start node
+        if (i === 0) {
+            for (const v of vars.declarations) lines.push(`<<declare $${v.name} = ${v.initial}>>`);
+        }
+        lines.push(`${escapeYarn(dialogue.speaker)}: ${escapeYarn(node.text)}`);
+        for (const choice of node.choices ?? []) {
+            const condition = (choice.conditions ?? []).length > 0
+                ? ` <<if ${choice.conditions!.map(c => conditionExpression(c, "$")).join(" and ")}>>` : "";
+            lines.push(`-> ${escapeYarn(choice.text)}${condition}`);
+            for (const effect of shiftStatements(choice, vars, "$")) lines.push(`    <<set ${effect}>>`);
+            lines.push(`    <<jump ${choice.next}>>`);
+        }
+        lines.push("===");
+        nodes.push(lines.join("\n"));
+    });
+    return nodes.join("\n") + "\n";
+}
+
+// ===== 🔷 Helpers =====
+
+type Variables = {
+    declarations: { name: string; initial: string }[];
+    demeanor: string;
+    strength: string;
+};
+
+/** The variables a dialogue's conditions and shifts use, in the order they first appear */
+function variables(dialogue: Dialogue, speaker?: Human): Variables {
+    const prefix = identifier(dialogue.speaker);
+    const declarations = new Map<string, string>();
+    for (const node of dialogue.nodes ?? []) {
+        for (const choice of node.choices ?? []) {
+            for (const condition of choice.conditions ?? []) {
+                if (condition.kind === "quest_state") declarations.set(`quest_${identifier(condition.quest)}`, `"not_started"`);
+                else declarations.set(`has_${identifier(condition.artifact)}`, "false");
+            }
+        }
+    }
+    const shifts = (dialogue.nodes ?? []).flatMap(node => (node.choices ?? []).flatMap(c => c.demeanor_shift ? [c.demeanor_shift] : []));
+    const demeanor = `${prefix}_demeanor`;
+    const strength = `${prefix}_demeanor_strength`;
+    if (shifts.some(shift => shift.demeanor !== undefined)) declarations.set(demeanor, `"${speaker?.demeanor ?? "Neutral"}"`);
+    if (shifts.length > 0) declarations.set(strength, String(speaker?.demeanor_strength ?? 0));
+    return { declarations: [...declarations].map(([name, initial]) => ({ name, initial })), demeanor, strength };
+}
+
+function conditionExpression(condition: DialogueCondition, sigil = ""): string {
+    switch (condition.kind) {
+        case "has_artifact":
+            return `${sigil}has_${identifier(condition.artifact)}`;
+        case "lacks_artifact":
+            return `not ${sigil}has_${identifier(condition.artifact)}`;
+        case "quest_state":
+            return `${sigil}quest_${identifier(condition.quest)} == "${condition.state}"`;
+    }
+}
+
+/** The assignments a choice's demeanor shift makes: `name = value` for Ink, `$name to value` for Yarn */
+function shiftStatements(choice: DialogueChoice, vars: Variables, sigil = ""): string[] {
+    const shift = choice.demeanor_shift;
+    if (!shift) return [];
+    const assign = (name: string, value: string) => sigil ? `${sigil}${name} to ${value}` : `${name} = ${value}`;
+    const statements = [sigil
+        ? assign(vars.strength, `$${vars.strength} ${shift.strength_change < 0 ? "-" : "+"} ${Math.abs(shift.strength_change)}`)
+        : `${vars.strength} ${shift.strength_change < 0 ? "-=" : "+="} ${Math.abs(shift.strength_change)}`];
+    if (shift.demeanor !== undefined) statements.push(assign(vars.demeanor, `"${shift.demeanor}"`));
+    return statements;
+}
+
+/** The start node first, then the rest in document order */
+function orderedNodes(dialogue: Dialogue): Dialogue["nodes"] {
+    const nodes = dialogue.nodes ?? [];
+    return [...nodes.filter(n => n.node_id === dialogue.start), ...nodes.filter(n => n.node_id !== dialogue.start)];
+}
+
+/** A variable name from a name: "The Brass Lens" -> the_brass_lens */
+function identifier(name: string): string {
+    const id = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+    return /^[a-z]/.test(id) ? id : `v_${id}`;
+}
+
+/** Text on one line, with Ink's markup characters escaped */
+function escapeInk(text: string): string {
+    return text.replace(/\s*\n\s*/g, " ").replace(/[\\[\]{}|#/<>~]/g, "\\$&");
+}
+
+/** Text on one line, with Yarn's markup characters escaped */
+function escapeYarn(text: string): string {
+    return text.replace(/\s*\n\s*/g, " ").replace(/[\\[\]{}#/<>]/g, "\\$&");
+}
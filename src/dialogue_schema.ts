@@ -0,0 +1,49 @@
+import { Being } from "./io_schema";
+
+// Sub-schema for NPC dialogue: a conversation between niala and one of the island's humans, as a graph of nodes.
+// The speaker says a node's text, and niala picks one of its choices, which leads to another node. A node with
+// no choices ends the conversation.
+// The import above is for the compiler only; at runtime this file is appended to io_schema.ts.
+
+// DIALOGUE is everything one human can say to niala
+export type Dialogue = {
+    speaker: string;                // human_name of the human who speaks
+    start: string;                  // node_id of the node the conversation starts at
+    nodes: DialogueNode[];
+}
+
+// DIALOGUENODE is one thing the speaker says, and what niala can say back
+export type DialogueNode = {
+    node_id: string;                // unique within the dialogue. lowercase letters, digits and _ only, e.g. "ask_about_lens"
+    text: string;                   // what the speaker says, in their own voice. one to three sentences.
+    choices?: DialogueChoice[];     // what niala can answer; leave it out to end the conversation here
+}
+
+// DIALOGUECHOICE is something niala can say
+export type DialogueChoice = {
+    text: string;                   // what niala says. one sentence.
+    next: string;                   // node_id of the node it leads to
+    conditions?: DialogueCondition[];  // the choice is only offered when all of these hold
+    demeanor_shift?: DemeanorShift; // how picking it changes the speaker's attitude to niala
+}
+
+export type DialogueCondition = ArtifactCondition | QuestCondition;
+
+// ARTIFACTCONDITION is about what niala carries
+export type ArtifactCondition = {
+    kind: "has_artifact" | "lacks_artifact";
+    artifact: string;               // name of an artifact on the island
+}
+
+// QUESTCONDITION is about how far niala has got with a quest
+export type QuestCondition = {
+    kind: "quest_state";
+    quest: string;                  // quest_name of one of the island's quests
+    state: "not_started" | "active" | "completed";
+}
+
+// DEMEANORSHIFT changes the speaker's demeanor_strength, and optionally their demeanor
+export type DemeanorShift = {
+    demeanor?: Being["demeanor"];   // the speaker's demeanor from now on, if it changes
+    strength_change: number;        // added to demeanor_strength; between -5 and 5, not 0
+}
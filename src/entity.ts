@@ -0,0 +1,145 @@
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+import { Island } from "./io_schema";
+import { SchemaModel, SchemaType } from "./schema_model";
+import { formatPointer, getAtPointer, JsonPatchOperation, parsePointer } from "./json_patch";
+import { describeSurroundings } from "./subtree";
+import { collectFauna, collectRoutes, geoFeatures } from "./island_validator";
+
+// Standalone generation of one value of any object type in the schema: a Building, an Artifact, a Human...
+// to drop into an existing island. The value gets the island around where it's going as prompt context,
+// and can be inserted there directly:
+//   /regions/2/buildings/-                 appends a Building to the third region
+//   /regions/0/buildings/1/inhabitants/0   puts a Human first among a building's inhabitants
+// The place must be a list whose items the type fits (a Human fits Fauna[]); a list that doesn't exist yet
+// (an optional one, like a region's artifacts) is created.
+// A Quest refers to the island's people, places and artifacts by name, so it also gets a list of them:
+//   /quests/-                              adds a quest to the island
+
+export type InsertTarget = {
+    pointer: string;                // where the value goes, "-" for the end of the list
+    list: string;                   // the list it goes into
+    declaredType: string;           // the list's item type as written in the schema, e.g. "Fauna"
+};
+
+/**
+ * The exported types a single value can be generated for: object types, and unions of them (like Fauna).
+ * Enumerations of strings (Biome, Weather...) are left out; they're chosen within a value, not generated alone.
+ */
+export function generatableTypes(model: SchemaModel): string[] {
+    return model.typeNames.filter(name => {
+        const type = model.getType(name);
+        return type !== undefined && isObjectType(model, type);
+    });
+}
+
+/**
+ * Checks that a value of `typeName` can be inserted at `pointer` in a value of `rootTypeName`.
+ */
+export function resolveInsertTarget(model: SchemaModel, rootTypeName: string, pointer: string, typeName: string): Result<InsertTarget> {
+    let tokens: string[];
+    try {
+        tokens = parsePointer(pointer);
+    } catch (e: any) {
+        return error(e.message);
+    }
+    const index = tokens[tokens.length - 1];
+    if (tokens.length === 0 || !(index === "-" || /^\d+$/.test(index))) {
+        return error(`"${pointer}" doesn't point into a list; end it with an index, or "-" to add at the end.`);
+    }
+    const listTokens = tokens.slice(0, -1);
+    const listType = model.typeAtPath(rootTypeName, listTokens);
+    const resolved = listType && model.resolve(listType);
+    if (!resolved || resolved.kind !== "array") {
+        return error(`The schema has no list at "${formatPointer(listTokens)}".`);
+    }
+    if (!accepts(model, resolved.element, typeName)) {
+        return error(`${typeName} can't go in "${formatPointer(listTokens)}", which holds ${resolved.element.text}.`);
+    }
+    return success({ pointer, list: formatPointer(listTokens), declaredType: resolved.element.text });
+}
+
+/**
+ * The patch that inserts a value at the target, creating its list first if the document doesn't have it yet.
+ * Fails if the list's parent is missing too, or the index is past the end of the list.
+ */
+export function insertOperations(doc: object, target: InsertTarget, value: unknown): Result<JsonPatchOperation[]> {
+    const list = getAtPointer(doc, target.list);
+    const ops: JsonPatchOperation[] = [];
+    if (list === undefined) {
+        const listTokens = parsePointer(target.list);
+        if (getAtPointer(doc, formatPointer(listTokens.slice(0, -1))) === undefined) {
+            return error(`Nothing at "${formatPointer(listTokens.slice(0, -1))}" to add ${target.list} to.`);
+        }
+        ops.push({ op: "add", path: target.list, value: [] });
+    } else if (!Array.isArray(list)) {
+        return error(`"${target.list}" isn't a list.`);
+    }
+    const index = parsePointer(target.pointer).pop()!;
+    const length = Array.isArray(list) ? list.length : 0;
+    if (index !== "-" && Number(index) > length) {
+        return error(`"${target.list}" only has ${length} items; can't insert at ${index}.`);
+    }
+    ops.push({ op: "add", path: target.pointer, value });
+    return success(ops);
+}
+
+/**
+ * The prompt preamble for generating a value to go somewhere in an island: the island around it, and
+ * (given a pointer) the region and building it will be in.
+ */
+export function describeEntityContext(island: Island, typeName: string, pointer?: string): string {
+    return `You are creating a new ${typeName} for the island "${island.island_name}".\n` +
+        describeSurroundings(island, pointer ?? "") +
+        (typeName === "Quest" ? describeQuestMaterial(island) : "") +
+        `Make the ${typeName} fit this island${pointer !== undefined ? ` and the place it goes (${pointer})` : ""}, ` +
+        `and don't reuse names that are already taken.\n`;
+}
+
+// ===== 🔷 Helpers =====
+
+/** Everything on the island a quest can refer to, under the names it has to use */
+function describeQuestMaterial(island: Island): string {
+    const humans = collectFauna(island).flatMap(({ being, region, feature, building }) => being.kind !== "human" ? [] :
+        [`- ${being.human_name} (${being.character_class}, ${being.demeanor}) in ${[region.region_name, feature?.feature_name, building?.building_name].filter(Boolean).join(", ")}`]);
+    const artifacts: string[] = [];
+    const places: string[] = [];
+    for (const region of island.regions ?? []) {
+        const holders = [{ where: region.region_name, holder: region }, ...geoFeatures(region).map(f => ({ where: `${region.region_name}, ${f.feature_name}`, holder: f }))];
+        for (const { where, holder } of holders) {
+            (holder.artifacts ?? []).forEach(a => artifacts.push(`- ${a.name} (${a.significance} ${a.artifact_type}) in ${where}`));
+            for (const building of holder.buildings ?? []) {
+                (building.artifacts ?? []).forEach(a => artifacts.push(`- ${a.name} (${a.significance} ${a.artifact_type}) in ${where}, ${building.building_name}`));
+            }
+        }
+        const buildings = [...(region.buildings ?? []), ...geoFeatures(region).flatMap(f => f.buildings ?? [])].map(b => b.building_name);
+        const features = geoFeatures(region).map(f => `${f.feature_name} (${f.feature_type})`);
+        places.push(`- ${region.region_name}: buildings ${buildings.join(", ") || "none"}; geo features ${features.join(", ") || "none"}`);
+    }
+    const closed = collectRoutes(island).filter(({ route }) => !route.open)
+        .map(({ from, route }) => `- from ${from ?? "the island's arrival"} to ${route.destination_name}`);
+    const quests = (island.quests ?? []).map(q => q.quest_name);
+
+    return `Humans who can give quests or be their targets:\n${humans.join("\n") || "(none)"}\n` +
+        `Artifacts quests can require or reward:\n${artifacts.join("\n") || "(none)"}\n` +
+        `Buildings and geo features by region:\n${places.join("\n")}\n` +
+        (closed.length > 0 ? `Closed routes a reward can open:\n${closed.join("\n")}\n` : "") +
+        (quests.length > 0 ? `Quest names already in use: ${quests.join(", ")}.\n` : "") +
+        `Refer to all of these by exactly these names, and order the steps so each can be reached by route from the one before.\n`;
+}
+
+function isObjectType(model: SchemaModel, type: SchemaType, depth = 0): boolean {
+    const resolved = model.resolve(type);
+    if (resolved.kind === "object") return true;
+    return resolved.kind === "union" && depth < 8 && resolved.options.every(option => isObjectType(model, option, depth + 1));
+}
+
+/** True if a value of the named type fits where `declared` is expected: the same type, or one of a union's options */
+function accepts(model: SchemaModel, declared: SchemaType, typeName: string, depth = 0): boolean {
+    if (depth > 8) return false;
+    if (declared.kind === "reference") {
+        if (declared.name === typeName) return true;
+        const target = model.getType(declared.name);
+        return target !== undefined && accepts(model, target, typeName, depth + 1);
+    }
+    return declared.kind === "union" && declared.options.some(option => accepts(model, option, typeName, depth + 1));
+}
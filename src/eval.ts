@@ -0,0 +1,260 @@
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+import { MythosLanguageModel, ModelUsage } from "./mythographer";
+
+// Prompt evaluation.
+// A suite of golden prompts is run through the same generate / modify, validate and repair pipeline as the server,
+// and each case reports:
+//  - whether the model's first response parsed, passed the schema, and passed the semantic checks
+//  - whether the island was valid in the end, and how many model repairs that took
+//  - latency, model calls and token usage
+// so a change to the request, modification or repair prompts shows up as better or worse numbers.
+// Model responses can be recorded (see createRecordingLanguageModel) and replayed offline with the fixture model,
+// one fixture directory per case; replayed calls report the latency and tokens they were recorded with.
+//
+// A suite is a json file:
+//  { "name": "golden", "cases": [
+//      { "id": "volcano", "prompt": "A volcanic island with three villages" },
+//      { "id": "add-port", "prompt": "Add a port town", "island": "islands/volcano.json", "patch": true, "locks": ["/regions/0"] }
+//  ] }
+// where `island` (relative to the suite file) makes the case a modification of that island.
+
+export type EvalCase = {
+    id: string;                     // names the case's fixture directory, so letters, digits, - _ and . only
+    prompt: string;
+    island?: string;                // path of an island to modify, relative to the suite
+    patch?: boolean;                // ask for a JSON Patch instead of a whole island
+    locks?: string[];               // JSON pointers the modification must not change
+};
+
+export type EvalSuite = {
+    name?: string;
+    cases: EvalCase[];
+};
+
+export type EvalMode = "live" | "record" | "replay";
+
+export type EvalTokens = {
+    prompt: number;
+    completion: number;
+    total: number;
+};
+
+export type EvalCaseResult = {
+    id: string;
+    kind: "generate" | "modify";
+    responded: boolean;             // the first response parsed as JSON (and, for a patch, applied)
+    schema_valid: boolean;          // the first response passed the schema
+    semantic_valid?: boolean;       // the first response passed the semantic checks; absent if it failed the schema
+    valid: boolean;                 // valid after local fixes, layout and model repairs
+    repairs: number;                // model repair round trips
+    latency_ms: number;             // the whole case; on replay, recorded latency stands in for each model call
+    model_calls: number;
+    model_latency_ms: number;
+    tokens: EvalTokens;             // as reported by the endpoint; zero when it reports nothing
+    error?: string;                 // why the case failed, or the last validation error
+};
+
+export type EvalSummary = {
+    cases: number;
+    responded: number;
+    schema_valid: number;
+    semantic_valid: number;
+    valid: number;
+    repairs: number;
+    mean_repairs: number;
+    mean_latency_ms: number;
+    max_latency_ms: number;
+    tokens: EvalTokens;
+};
+
+export type EvalReport = {
+    suite: string;
+    mode: EvalMode;
+    date: string;                   // ISO timestamp of the run
+    results: EvalCaseResult[];
+    summary: EvalSummary;
+};
+
+/** What the metered model's calls cost since the last `take` */
+export type ModelMeterReading = {
+    calls: number;
+    latency_ms: number;             // recorded latency where the model reported one, measured otherwise
+    measured_ms: number;            // wall clock time spent waiting on the model
+    tokens: EvalTokens;
+};
+
+/**
+ * Parses and checks a suite file.
+ */
+export function parseSuite(text: string): Result<EvalSuite> {
+    let suite: unknown;
+    try {
+        suite = JSON.parse(text);
+    } catch (e: any) {
+        return error(`Suite is not valid JSON: ${e.message}`);
+    }
+    if (typeof suite !== "object" || suite === null || !Array.isArray((suite as { cases?: unknown }).cases)) {
+        return error(`A suite is an object with a "cases" array.`);
+    }
+    const { name, cases } = suite as { name?: unknown; cases: unknown[] };
+    if (name !== undefined && typeof name !== "string") return error(`The suite's name must be a string.`);
+    const ids = new Set<string>();
+    for (const [i, item] of cases.entries()) {
+        const where = `cases[${i}]`;
+        if (typeof item !== "object" || item === null) return error(`${where} is not an object.`);
+        const c = item as Record<string, unknown>;
+        if (typeof c.id !== "string" || !/^[\w.-]+$/.test(c.id)) return error(`${where}.id must be a string of letters, digits, -, _ and . only.`);
+        if (ids.has(c.id)) return error(`${where}.id "${c.id}" is used by more than one case.`);
+        ids.add(c.id);
+        if (typeof c.prompt !== "string" || c.prompt.trim() === "") return error(`${where}.prompt must be a non-empty string.`);
+        if (c.island !== undefined && typeof c.island !== "string") return error(`${where}.island must be a file path.`);
+        if (c.patch !== undefined && typeof c.patch !== "boolean") return error(`${where}.patch must be true or false.`);
+        if (c.locks !== undefined && !(Array.isArray(c.locks) && c.locks.every(l => typeof l === "string"))) {
+            return error(`${where}.locks must be an array of JSON pointers.`);
+        }
+        if ((c.patch !== undefined || c.locks !== undefined) && c.island === undefined) {
+            return error(`${where} has patch or locks but no island to modify.`);
+        }
+    }
+    return success(suite as EvalSuite);
+}
+
+/**
+ * Wraps a model to count its calls, time them and add up the tokens it reports.
+ */
+export function createMeteredModel(model: MythosLanguageModel): { model: MythosLanguageModel; take(): ModelMeterReading } {
+    let reading = emptyReading();
+    let reported: ModelUsage | undefined;
+    model.onUsage = usage => { reported = usage; };
+
+    const metered: MythosLanguageModel = {
+        complete: (prompt, signal) => meter(() => model.complete(prompt, signal))
+    };
+    if (model.completeStream) {
+        const completeStream = model.completeStream;
+        metered.completeStream = (prompt, onChunk, signal) => meter(() => completeStream(prompt, onChunk, signal));
+    }
+    return {
+        model: metered,
+        take() {
+            const taken = reading;
+            reading = emptyReading();
+            return taken;
+        }
+    };
+
+    async function meter(call: () => Promise<Result<string>>): Promise<Result<string>> {
+        reported = undefined;
+        const start = Date.now();
+        const result = await call();
+        const measured = Date.now() - start;
+        const usage = reported as ModelUsage | undefined;     // set by the call, through onUsage
+        reading.calls++;
+        reading.measured_ms += measured;
+        reading.latency_ms += usage?.latency_ms ?? measured;
+        reading.tokens.prompt += usage?.prompt_tokens ?? 0;
+        reading.tokens.completion += usage?.completion_tokens ?? 0;
+        reading.tokens.total += usage?.total_tokens ?? (usage?.prompt_tokens ?? 0) + (usage?.completion_tokens ?? 0);
+        return result;
+    }
+}
+
+/**
+ * Totals and averages over a run's results.
+ */
+export function summarizeEval(results: EvalCaseResult[]): EvalSummary {
+    const count = (test: (r: EvalCaseResult) => boolean | undefined) => results.filter(test).length;
+    const repairs = results.reduce((sum, r) => sum + r.repairs, 0);
+    const latency = results.reduce((sum, r) => sum + r.latency_ms, 0);
+    return {
+        cases: results.length,
+        responded: count(r => r.responded),
+        schema_valid: count(r => r.schema_valid),
+        semantic_valid: count(r => r.semantic_valid),
+        valid: count(r => r.valid),
+        repairs,
+        mean_repairs: results.length > 0 ? round(repairs / results.length) : 0,
+        mean_latency_ms: results.length > 0 ? Math.round(latency / results.length) : 0,
+        max_latency_ms: Math.max(0, ...results.map(r => r.latency_ms)),
+        tokens: {
+            prompt: results.reduce((sum, r) => sum + r.tokens.prompt, 0),
+            completion: results.reduce((sum, r) => sum + r.tokens.completion, 0),
+            total: results.reduce((sum, r) => sum + r.tokens.total, 0)
+        }
+    };
+}
+
+/**
+ * Compares a run with an earlier one, case by case. Returns one line per case that got worse: its first
+ * response stopped passing a check, it ended invalid, or it needed more repairs. Empty means no regressions.
+ */
+export function findRegressions(baseline: EvalReport, report: EvalReport): string[] {
+    const before = new Map(baseline.results.map(r => [r.id, r]));
+    const regressions: string[] = [];
+    for (const after of report.results) {
+        const was = before.get(after.id);
+        if (!was) continue;
+        const worse: string[] = [];
+        if (was.responded && !after.responded) worse.push("no longer responds with JSON");
+        if (was.schema_valid && !after.schema_valid) worse.push("first response no longer passes the schema");
+        if (was.semantic_valid && !after.semantic_valid) worse.push("first response no longer passes the semantic checks");
+        if (was.valid && !after.valid) worse.push("no longer valid after repair");
+        if (after.repairs > was.repairs) worse.push(`needs ${after.repairs} repairs instead of ${was.repairs}`);
+        if (worse.length > 0) regressions.push(`${after.id}: ${worse.join("; ")}`);
+    }
+    return regressions;
+}
+
+/**
+ * A plain text table of a run, with its summary and, given a baseline, the change from it.
+ */
+export function formatEvalReport(report: EvalReport, baseline?: EvalReport): string {
+    const yes = (b: boolean | undefined) => b === undefined ? "-" : b ? "yes" : "no";
+    const rows = [
+        ["case", "kind", "json", "schema", "semantic", "valid", "repairs", "latency", "calls", "tokens"],
+        ...report.results.map(r => [
+            r.id, r.kind, yes(r.responded), yes(r.schema_valid), yes(r.semantic_valid), yes(r.valid),
+            String(r.repairs), `${r.latency_ms}ms`, String(r.model_calls), String(r.tokens.total)
+        ])
+    ];
+    const widths = rows[0].map((_, c) => Math.max(...rows.map(row => row[c].length)));
+    const lines = rows.map(row => row.map((cell, c) => cell.padEnd(widths[c])).join("  ").trimEnd());
+    lines.splice(1, 0, widths.map(w => "-".repeat(w)).join("  "));
+
+    const s = report.summary;
+    const was = baseline?.summary;
+    const change = (now: number, before: number | undefined) => before === undefined || now === before ? "" : ` (${now > before ? "+" : ""}${round(now - before)})`;
+    const rate = (n: number, of: number) => of > 0 ? `${Math.round(n / of * 100)}%` : "-";
+    lines.push(
+        "",
+        `Suite ${report.suite} (${report.mode}), ${s.cases} case${s.cases === 1 ? "" : "s"}`,
+        `  responded        ${s.responded}/${s.cases}  ${rate(s.responded, s.cases)}${change(s.responded, was?.responded)}`,
+        `  schema valid     ${s.schema_valid}/${s.cases}  ${rate(s.schema_valid, s.cases)}${change(s.schema_valid, was?.schema_valid)}`,
+        `  semantic valid   ${s.semantic_valid}/${s.schema_valid}  ${rate(s.semantic_valid, s.schema_valid)}${change(s.semantic_valid, was?.semantic_valid)}`,
+        `  valid at the end ${s.valid}/${s.cases}  ${rate(s.valid, s.cases)}${change(s.valid, was?.valid)}`,
+        `  repairs          ${s.repairs}, ${s.mean_repairs} per case${change(s.mean_repairs, was?.mean_repairs)}`,
+        `  latency          mean ${s.mean_latency_ms}ms${change(s.mean_latency_ms, was?.mean_latency_ms)}, max ${s.max_latency_ms}ms`,
+        `  tokens           ${s.tokens.total} (${s.tokens.prompt} prompt, ${s.tokens.completion} completion)${change(s.tokens.total, was?.tokens.total)}`
+    );
+    if (baseline) {
+        const regressions = findRegressions(baseline, report);
+        lines.push("", regressions.length > 0
+            ? `Regressions against the baseline from ${baseline.date}:\n${regressions.map(r => `  ${r}`).join("\n")}`
+            : `No regressions against the baseline from ${baseline.date}.`);
+    }
+    const failures = report.results.filter(r => r.error !== undefined);
+    if (failures.length > 0) {
+        lines.push("", "Errors:", ...failures.map(r => `  ${r.id}: ${r.error!.split("\n")[0]}`));
+    }
+    return lines.join("\n") + "\n";
+}
+
+// ===== 🔷 Helpers =====
+
+function emptyReading(): ModelMeterReading {
+    return { calls: 0, latency_ms: 0, measured_ms: 0, tokens: { prompt: 0, completion: 0, total: 0 } };
+}
+
+function round(n: number): number {
+    return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,205 @@
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+import { Island, Region, Building } from "./io_schema";
+import { IslandSkeleton, RegionOutline, RegionContents, BuildingOutline } from "./skeleton_schema";
+import { Mythographer, CompletionOptions, repairUntilValid } from "./mythographer";
+import { collectRoutes } from "./island_validator";
+import { SCHEMA_VERSION } from "./migrate";
+
+// Hierarchical island generation.
+// A whole Island in one translate call runs into output token limits once it has more than a handful of regions,
+// so instead we generate it in tiers:
+//  1. the skeleton: island header, starting routes, and region outlines (the route graph)
+//  2. each region's contents, concurrently: building outlines, fauna, artifacts, geo features
+//  3. each building in full, concurrently
+// and finally stitch the pieces back together into an Island. The caller validates and repairs the stitched result.
+
+/** One translator per tier, each with its own sub-schema validator */
+export type HierarchicalTranslators = {
+    skeleton: Mythographer<IslandSkeleton>;
+    regionContents: Mythographer<RegionContents>;
+    building: Mythographer<Building>;
+};
+
+/** Progress of one part of the generation, e.g. `region:Ash Beach` or `building:Old Dock` */
+export type PartProgress = {
+    part: string;
+    state: "started" | "done" | "partial" | "failed";
+    completed: number;          // parts finished so far (in any end state)
+    total: number;              // parts known so far; grows as outlines reveal regions and buildings
+    message?: string;
+};
+
+export type HierarchicalOptions = {
+    concurrency?: number;               // max concurrent model calls per tier, a positive integer; default 4
+    maxRepairAttempts?: number;         // per part, default 2
+    onProgress?: (progress: PartProgress) => void;
+    isStale?: () => boolean;            // checked between parts; stops scheduling new work when true
+    signal?: AbortSignal;               // aborts the in-flight model calls
+    preamble?: string;                  // context for every tier, e.g. the world the island belongs to
+};
+
+/**
+ * Generates an island in tiers. Fails only if the skeleton can't be generated or repaired; a region or building that
+ * fails is replaced with an empty placeholder (and reported as "failed") so the rest of the island survives.
+ * @param request The natural language request for the island.
+ * @param translators The per-tier translators.
+ * @param options Concurrency, repair and progress settings.
+ * @returns The stitched island, not yet validated as a whole.
+ */
+export async function generateIslandHierarchically(
+    request: string,
+    translators: HierarchicalTranslators,
+    options: HierarchicalOptions = {}
+): Promise<Result<Island>> {
+    const requested = options.concurrency;
+    const concurrency = requested !== undefined && Number.isInteger(requested) && requested > 0 ? requested : 4;
+    const maxRepairAttempts = options.maxRepairAttempts ?? 2;
+    const isStale = options.isStale ?? (() => false);
+    const callOptions: CompletionOptions = options.signal ? { signal: options.signal } : {};
+    let completed = 0;
+    let total = 1;
+
+    const report = (part: string, state: PartProgress["state"], message?: string) => {
+        if (state !== "started") completed++;
+        options.onProgress?.({ part, state, completed, total, ...(message !== undefined ? { message } : {}) });
+    };
+
+    // 1. skeleton
+    report("skeleton", "started");
+    const skeletonResult = await translateValid(translators.skeleton, request, options.preamble, maxRepairAttempts, callOptions);
+    if (!skeletonResult.success) {
+        report("skeleton", "failed", skeletonResult.message);
+        return error(`Could not generate island skeleton: ${skeletonResult.message}`);
+    }
+    // every later tier is built on the skeleton's regions, so unlike the other parts it has to be valid
+    const skeleton = skeletonResult.data.data;
+    if (!skeletonResult.data.valid || !Array.isArray(skeleton.regions)) {
+        const message = skeletonResult.data.message ?? "The skeleton has no regions.";
+        report("skeleton", "failed", message);
+        return error(`Could not generate island skeleton: ${message}`);
+    }
+    report("skeleton", "done");
+    if (isStale()) return error("Job stale or canceled during generation.");
+
+    // 2. region contents
+    total += skeleton.regions.length;
+    const islandContext = (options.preamble ?? "") + describeIsland(skeleton);
+    const contents = await mapConcurrent(skeleton.regions, concurrency, async (outline): Promise<RegionContents> => {
+        const part = `region:${outline.region_name}`;
+        if (isStale()) return { buildings: [] };
+        report(part, "started");
+        const result = await translateValid(translators.regionContents, createRegionRequest(request, outline, skeleton), islandContext, maxRepairAttempts, callOptions);
+        if (!result.success) {
+            report(part, "failed", result.message);
+            return { buildings: [] };
+        }
+        report(part, result.data.valid ? "done" : "partial");
+        return result.data.data;
+    });
+    if (isStale()) return error("Job stale or canceled during generation.");
+
+    // 3. buildings
+    const outlines = contents.map(buildingOutlines);
+    const buildingJobs = skeleton.regions.flatMap((outline, r) => outlines[r].map(building => ({ region: outline, building })));
+    total += buildingJobs.length;
+    const buildings = await mapConcurrent(buildingJobs, concurrency, async ({ region, building }): Promise<Building> => {
+        const part = `building:${building.building_name}`;
+        if (isStale()) return placeholderBuilding(building);
+        report(part, "started");
+        const result = await translateValid(translators.building, createBuildingRequest(request, region, building), islandContext, maxRepairAttempts, callOptions);
+        if (!result.success) {
+            report(part, "failed", result.message);
+            return placeholderBuilding(building);
+        }
+        report(part, result.data.valid ? "done" : "partial");
+        // the outline's name is what the rest of the island knows this building by
+        return { ...result.data.data, building_name: building.building_name };
+    });
+    if (isStale()) return error("Job stale or canceled during generation.");
+
+    // stitch
+    let next = 0;
+    const regions: Region[] = skeleton.regions.map((outline, r) => {
+        const region: Region = { ...outline, ...contents[r], buildings: [] };
+        for (let b = 0; b < outlines[r].length; b++) {
+            region.buildings.push(buildings[next++]);
+        }
+        return region;
+    });
+    return success({ schema_version: SCHEMA_VERSION, ...skeleton, regions });
+}
+
+/**
+ * Translates a request and runs the validate/repair loop. Returns the last instance even if it never fully
+ * validated (`valid: false`, with the last error in `message`) so a single stubborn part doesn't sink the island;
+ * the stitched result is validated again as a whole. Fails only when the model produced no usable JSON.
+ */
+async function translateValid<T extends object>(
+    translator: Mythographer<T>,
+    request: string,
+    preamble: string | undefined,
+    maxRepairAttempts: number,
+    options: CompletionOptions
+): Promise<Result<{ data: T; valid: boolean; message?: string }>> {
+    const translation = await translator.translate(request, preamble, options);
+    if (!translation.success) {
+        return translation;
+    }
+    const { data, valid, message } = await repairUntilValid(translator, translation.data, maxRepairAttempts, preamble, options);
+    return success({ data, valid, ...(message !== undefined ? { message } : {}) });
+}
+
+/** A region's building outlines. Contents that never validated may have no list, or holes in it */
+function buildingOutlines(contents: RegionContents): BuildingOutline[] {
+    return Array.isArray(contents.buildings) ? contents.buildings.filter(b => typeof b === "object" && b !== null) : [];
+}
+
+/** Compact island summary used as the preamble for every sub-generation */
+function describeIsland(skeleton: IslandSkeleton): string {
+    const regions = skeleton.regions.map(r =>
+        `- ${r.region_name} (#${r.region_number}, ${r.size} ${r.biome} ${r.topography}, ${r.weather}): ${r.story}`).join("\n");
+    return `You are helping to design the island "${skeleton.island_name}".\n` +
+        `Goal: ${skeleton.goal}\n` +
+        `Story: ${skeleton.story_context}\n` +
+        `The island's regions are:\n${regions}\n`;
+}
+
+function createRegionRequest(request: string, outline: RegionOutline, skeleton: IslandSkeleton): string {
+    // the skeleton's routes may already lead to features of this region, which have to exist
+    const targeted = [...new Set(collectRoutes(skeleton)
+        .filter(({ route }) => route.destination_name === outline.region_name && route.destination_feature !== undefined)
+        .map(({ route }) => route.destination_feature!))];
+    return `The island was requested as: "${request}".\n` +
+        `Generate the contents of the region "${outline.region_name}": its buildings (as outlines), fauna, artifacts, and geo features ` +
+        `that suit its ${outline.topography} topography and ${outline.biome} biome. ` +
+        (targeted.length > 0 ? `Routes lead to these geo features, so include them with exactly these feature_names: ${targeted.map(n => `"${n}"`).join(", ")}. ` : "") +
+        `Building and feature names must be unique across the whole island. The region is:\n` +
+        `${JSON.stringify(outline, null, 2)}`;
+}
+
+function createBuildingRequest(request: string, region: RegionOutline, building: BuildingOutline): string {
+    return `The island was requested as: "${request}".\n` +
+        `Generate the building "${building.building_name}" in the region "${region.region_name}" in full, ` +
+        `including its story, inhabitants and artifacts. Keep the name, type, material and size from the outline:\n` +
+        `${JSON.stringify(building, null, 2)}\n` +
+        `The region's story is: ${region.story}`;
+}
+
+/** A building with no contents, used when its full generation fails */
+function placeholderBuilding(outline: BuildingOutline): Building {
+    return { ...outline, adjectives: [], story: "", inhabitants: [], artifacts: [] };
+}
+
+/** Like Promise.all over items.map(fn), but with at most `limit` calls in flight. Preserves order. */
+async function mapConcurrent<I, O>(items: I[], limit: number, fn: (item: I) => Promise<O>): Promise<O[]> {
+    const results: O[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+    return results;
+}
@@ -0,0 +1,133 @@
+import { Island } from "./io_schema";
+import { diffJson, parsePointer, JsonPatchOperation } from "./json_patch";
+
+// Undo/redo history of a design session's island.
+// Every result a session's jobs produce is recorded as an entry; undo and redo move a cursor through the entries.
+// Recording a new result after an undo drops the entries that could have been redone, like any editor.
+// The island store keeps every version forever; this is the session's working history on top of it.
+
+/** How the job that produced an entry ended */
+export type HistoryOutcome = "result" | "result_partial";
+
+export type HistoryEntry = {
+    prompt: string;
+    timestamp: string;              // ISO timestamp
+    source: "prompt" | "modify";
+    outcome: HistoryOutcome;
+    changes: number;                // number of patch operations from the previous entry
+    summary: string;                // what changed, e.g. `Ash Beach: changed biome; added region Old Quarry`
+    island_id?: string;             // where the island store saved it
+    version?: number;
+    data: Island;
+};
+
+/** An entry without its island, for listings */
+export type HistoryEntryInfo = Omit<HistoryEntry, "data"> & {
+    index: number;
+    current: boolean;               // the entry the session's island is at now
+};
+
+export interface IslandHistory {
+    /** The entry the session's island is at, or undefined before the first result */
+    current(): HistoryEntry | undefined;
+    /** Records a new result after the current entry, dropping any entries that could have been redone */
+    record(entry: Omit<HistoryEntry, "changes" | "summary">): HistoryEntry;
+    /** Steps back one entry; returns the entry now current, or undefined if there's nothing to undo */
+    undo(): HistoryEntry | undefined;
+    /** Steps forward one entry; returns the entry now current, or undefined if there's nothing to redo */
+    redo(): HistoryEntry | undefined;
+    canUndo(): boolean;
+    canRedo(): boolean;
+    /** Every entry, oldest first */
+    list(): HistoryEntryInfo[];
+}
+
+/**
+ * Creates an empty history.
+ * @param limit The most entries to keep; the oldest are dropped beyond it.
+ */
+export function createIslandHistory(limit = 50): IslandHistory {
+    const entries: HistoryEntry[] = [];
+    let cursor = -1;
+
+    return {
+        current: () => entries[cursor],
+        record,
+        undo: () => {
+            if (cursor <= 0) return undefined;
+            return entries[--cursor];
+        },
+        redo: () => {
+            if (cursor >= entries.length - 1) return undefined;
+            return entries[++cursor];
+        },
+        canUndo: () => cursor > 0,
+        canRedo: () => cursor < entries.length - 1,
+        list: () => entries.map(({ data, ...info }, index) => ({ ...info, index, current: index === cursor }))
+    };
+
+    function record(entry: Omit<HistoryEntry, "changes" | "summary">): HistoryEntry {
+        const previous = entries[cursor];
+        const patch = previous ? diffJson(previous.data, entry.data) : [];
+        const full: HistoryEntry = {
+            ...entry,
+            changes: patch.length,
+            summary: previous ? summarizeChanges(previous.data, entry.data, patch) : describeNewIsland(entry.data)
+        };
+        entries.splice(cursor + 1, entries.length, full);
+        if (entries.length > limit) {
+            entries.splice(0, entries.length - limit);
+        }
+        cursor = entries.length - 1;
+        return full;
+    }
+}
+
+/**
+ * A short human readable summary of a patch between two islands, naming regions and buildings rather than
+ * giving array indices: `Ash Beach: changed biome; Ash Beach / Old Dock: changed story; added region Old Quarry`.
+ * @param maxItems The most changes to list before summarizing the rest as a count.
+ */
+export function summarizeChanges(before: Island, after: Island, patch: JsonPatchOperation[] = diffJson(before, after), maxItems = 6): string {
+    if (patch.length === 0) return "No changes.";
+    const items = patch.slice(0, maxItems).map(op => describeChange(before, after, op));
+    const more = patch.length - items.length;
+    return items.join("; ") + (more > 0 ? `; and ${more} more change${more === 1 ? "" : "s"}` : "");
+}
+
+function describeNewIsland(island: Island): string {
+    const regions = island.regions?.length ?? 0;
+    return `New island "${island.island_name}" with ${regions} region${regions === 1 ? "" : "s"}.`;
+}
+
+function describeChange(before: Island, after: Island, op: JsonPatchOperation): string {
+    const verb = op.op === "add" ? "added" : op.op === "remove" ? "removed" : "changed";
+    const tokens = parsePointer(op.path);
+    // removed things are named as they were; added and changed things as they are now
+    const island = op.op === "remove" ? before : after;
+
+    if (tokens[0] === "quests" && tokens.length >= 2) {
+        const questName = island.quests?.[Number(tokens[1])]?.quest_name ?? `quest ${tokens[1]}`;
+        return tokens.length === 2 ? `${verb} quest ${questName}` : `${questName}: ${verb} ${tokens.slice(2).join(".")}`;
+    }
+    if (tokens[0] !== "regions" || tokens.length < 2) {
+        return `${verb} ${tokens.join(".")}`;
+    }
+    const region = island.regions?.[Number(tokens[1])];
+    const regionName = region?.region_name ?? `region ${tokens[1]}`;
+    if (tokens.length === 2) {
+        return `${verb} region ${regionName}`;
+    }
+    if (tokens[2] === "geo_features" && tokens.length >= 4) {
+        const featureName = region?.geo_features?.[Number(tokens[3])]?.feature_name ?? `geo feature ${tokens[3]}`;
+        return tokens.length === 4 ? `${regionName}: ${verb} geo feature ${featureName}` : `${regionName} / ${featureName}: ${verb} ${tokens.slice(4).join(".")}`;
+    }
+    if (tokens[2] !== "buildings" || tokens.length < 4) {
+        return `${regionName}: ${verb} ${tokens.slice(2).join(".")}`;
+    }
+    const buildingName = region?.buildings?.[Number(tokens[3])]?.building_name ?? `building ${tokens[3]}`;
+    if (tokens.length === 4) {
+        return `${regionName}: ${verb} building ${buildingName}`;
+    }
+    return `${regionName} / ${buildingName}: ${verb} ${tokens.slice(4).join(".")}`;
+}
@@ -0,0 +1,199 @@
+// Incremental JSON parser for streamed model output.
+// Feed it text as it arrives and it reports each value the moment it is complete, with its path in the document.
+// e.g. for an Island, ["regions", 0, "buildings", 1] fires as soon as that building's closing brace arrives,
+// long before the whole island has been generated.
+//
+// Like parse_json_response in mythographer.ts, anything before the first "{" (prose, ```json fences) is skipped,
+// and anything after the root object closes is ignored. The parser is forgiving in the sense that malformed input
+// just stops further events; the final document is still parsed and validated the normal way.
+
+export type JsonPath = (string | number)[];
+
+export interface IncrementalJsonParser {
+    /** Feeds the next piece of text to the parser */
+    write(text: string): void;
+    /** True once the root object has closed */
+    readonly done: boolean;
+    /** Set if the input stopped being valid JSON; no further events are reported */
+    readonly failure: string | undefined;
+}
+
+type Frame =
+    | { kind: "object"; path: JsonPath; value: Record<string, unknown>; key: string | undefined; expect: "key" | "colon" | "value" | "comma" }
+    | { kind: "array"; path: JsonPath; value: unknown[]; expect: "value" | "comma" };
+
+/**
+ * Creates an incremental parser that calls `onValue` for every completed value (scalars, objects and arrays)
+ * in document order. Children always complete before their parents.
+ * @param onValue Receives the path and value of each completed value. The root object has the path `[]`.
+ */
+export function createIncrementalJsonParser(onValue: (path: JsonPath, value: unknown) => void): IncrementalJsonParser {
+    const stack: Frame[] = [];
+    let started = false;
+    let done = false;
+    let failure: string | undefined;
+
+    // scalar token in progress
+    let inString = false;
+    let escaped = false;
+    let token = "";             // raw string contents (between quotes) or literal/number characters
+    let inLiteral = false;
+
+    const parser: IncrementalJsonParser = {
+        write,
+        get done() { return done; },
+        get failure() { return failure; }
+    };
+    return parser;
+
+    function write(text: string) {
+        for (const ch of text) {
+            if (done || failure !== undefined) return;
+            step(ch);
+        }
+    }
+
+    function step(ch: string) {
+        if (!started) {
+            if (ch !== "{") return;          // skip leading prose
+            started = true;
+            openContainer("object");
+            return;
+        }
+
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+                token += ch;
+            } else if (ch === "\\") {
+                escaped = true;
+                token += ch;
+            } else if (ch === "\"") {
+                inString = false;
+                let value: string;
+                try {
+                    value = JSON.parse(`"${token}"`);
+                } catch {
+                    return fail(`invalid string literal "${token}"`);
+                }
+                token = "";
+                completeString(value);
+            } else {
+                token += ch;
+            }
+            return;
+        }
+
+        if (inLiteral) {
+            if (/[-+0-9.eEa-z]/.test(ch)) {
+                token += ch;
+                return;
+            }
+            inLiteral = false;
+            let value: unknown;
+            try {
+                value = JSON.parse(token);
+            } catch {
+                return fail(`invalid literal ${token}`);
+            }
+            token = "";
+            completeValue(value);
+            if (done || failure !== undefined) return;
+            // fall through: the delimiter still needs handling
+        }
+
+        if (/\s/.test(ch)) return;
+
+        const top = stack[stack.length - 1];
+        switch (ch) {
+            case "{":
+            case "[":
+                if (!expectsValue(top)) return fail(`unexpected "${ch}"`);
+                openContainer(ch === "{" ? "object" : "array");
+                return;
+            case "}":
+                if (top.kind !== "object" || (top.expect !== "comma" && !(top.expect === "key" && Object.keys(top.value).length === 0))) {
+                    return fail(`unexpected "}"`);
+                }
+                closeContainer();
+                return;
+            case "]":
+                if (top.kind !== "array" || (top.expect !== "comma" && top.value.length > 0)) {
+                    return fail(`unexpected "]"`);
+                }
+                closeContainer();
+                return;
+            case ":":
+                if (top.kind !== "object" || top.expect !== "colon") return fail(`unexpected ":"`);
+                top.expect = "value";
+                return;
+            case ",":
+                if (top.expect !== "comma") return fail(`unexpected ","`);
+                top.expect = top.kind === "object" ? "key" : "value";
+                return;
+            case "\"":
+                if (!(top.kind === "object" && top.expect === "key") && !expectsValue(top)) return fail(`unexpected string`);
+                inString = true;
+                token = "";
+                return;
+            default:
+                if (!expectsValue(top) || !/[-0-9tfn]/.test(ch)) return fail(`unexpected "${ch}"`);
+                inLiteral = true;
+                token = ch;
+                return;
+        }
+    }
+
+    function expectsValue(frame: Frame): boolean {
+        return frame.expect === "value";
+    }
+
+    function childPath(frame: Frame): JsonPath {
+        return frame.kind === "object" ? [...frame.path, frame.key!] : [...frame.path, frame.value.length];
+    }
+
+    function openContainer(kind: "object" | "array") {
+        const parent = stack[stack.length - 1];
+        const path = parent ? childPath(parent) : [];
+        stack.push(kind === "object"
+            ? { kind, path, value: {}, key: undefined, expect: "key" }
+            : { kind, path, value: [], expect: "value" });
+    }
+
+    function closeContainer() {
+        const frame = stack.pop()!;
+        completeValue(frame.value);
+    }
+
+    function completeString(value: string) {
+        const top = stack[stack.length - 1];
+        if (top.kind === "object" && top.expect === "key") {
+            top.key = value;
+            top.expect = "colon";
+            return;
+        }
+        completeValue(value);
+    }
+
+    /** Attaches a finished value to its parent (or finishes the document) and reports it */
+    function completeValue(value: unknown) {
+        const parent = stack[stack.length - 1];
+        if (!parent) {
+            done = true;
+            onValue([], value);
+            return;
+        }
+        const path = childPath(parent);
+        if (parent.kind === "object") {
+            parent.value[parent.key!] = value;
+        } else {
+            parent.value.push(value);
+        }
+        parent.expect = "comma";
+        onValue(path, value);
+    }
+
+    function fail(message: string) {
+        failure = message;
+    }
+}
@@ -20,7 +20,45 @@ export type Mood = "Violent" | "Peaceful" | "Joyous" | "Dismal" | "Intrigue" | "
 export type Material = "wooden" | "stone" | "metal" | "glass" | "concrete" | "brick" |  "reolyte";
 
 
+// WORLD is the whole archipelago: its islands, the ways between them, and the canon they all share
+export type World = {
+    world_name: string;
+    canon: Canon;
+    islands: Island[];
+    island_routes: WorldRoute[];    // travel between islands; within an island, regions use Route
+}
+
+// CANON is the lore every island must stay consistent with
+export type Canon = {
+    protagonist: string;            // who niala is, what drives them, what they carry. a few sentences.
+    history: string;                // what happened to the archipelago before the game begins. a few sentences.
+    factions: Faction[];
+    themes?: string[];              // e.g. "loss", "rebuilding", "the sea remembers"
+}
+
+export type Faction = {
+    faction_name: string;           // unique within the world
+    description: string;            // who they are and what they want. one or two sentences.
+    stance: "Friendly" | "Neutral" | "Hostile";   // toward niala
+    home_island?: string;           // island_name of the faction's seat of power, if any
+}
+
+// WORLDROUTE is a route between two islands. only sea and air crossings go between islands
+export type WorldRoute = {
+    route_type: "ferry" | "dirigible" | "dock";
+    difficulty: "easy" | "medium" | "hard" | "impossible";
+    open: boolean;
+    weather: Weather;               // the weather encountered on the crossing
+
+    from_island: string;            // island_name of the island the route leaves from
+    from_region?: string;           // region_name it leaves from on that island
+    destination_island: string;     // island_name of the island the route leads to
+    destination_name?: string;      // region_name it arrives at; otherwise the destination's starting routes
+}
+
 export type Island = {
+    schema_version: 2;          // the version of this schema; always 2
+
     // the name of the island, unique within the game
     // should be descriptive and evocative
     island_name: string;
@@ -48,6 +86,9 @@ export type Island = {
 
     // all the regions on the island
     regions: Region[];
+
+    // the island's quests: structured gameplay toward its goal, built from the regions, people and artifacts above
+    quests?: Quest[];
 }
 
 export type Region = {
@@ -65,6 +106,7 @@ export type Region = {
     buildings: Building[];
     fauna?: Fauna[];
     artifacts?: Artifact[];
+    geo_features?: GeoFeature[];    // lakes, waterfalls, hills... within the region. must suit its topography and biome
 
     next_area: Route;           // the next area the player can go to
     shortcut?: Route;           // optional shortcut to another area
@@ -85,6 +127,7 @@ export type Route = {
     weather: Weather;         // the weather encountered on the route
 
     destination_name: string; // the name of region the route leads to
+    destination_feature?: string; // the feature_name of a geo feature in that region, if the route leads to one
     direction?: "north" | "south" | "east" | "west" | "up" | "down";
 }
 
@@ -104,9 +147,11 @@ export type Building = {
     size: "small" | "medium" | "large" | "extra large";
 }
 
+// GEOFEATURE is a natural landmark within a region, and a place of its own: routes can lead straight to it.
+// no marshes or lakes in desert dunes, no waterfalls on flat land
 export type GeoFeature = {
-    feature_name: string;
-    background: string;
+    feature_name: string;       // unique within the island
+    background: string;         // what the feature looks like and what happened here. one or two sentences.
     feature_type: "hill" | "mountain" | "valley" | "lake" | "plateau" | "canyon" | "river" | "waterfall" | "marsh";
 
     size: "small" | "medium" | "large" | "extra large";
@@ -117,6 +162,39 @@ export type GeoFeature = {
 }
 
 
+///////////
+//
+// QUESTS
+// A quest is given to niala by a human on the island, and is done in steps, in order.
+// Everything a quest refers to is named exactly as it is in the island.
+//
+///////////
+
+export type Quest = {
+    quest_name: string;             // unique within the island
+    summary: string;                // what the quest is about and why it matters. one or two sentences.
+    giver: string;                  // human_name of the human who gives the quest
+    steps: QuestStep[];             // in order; each step's region must be reachable from the one before
+    rewards: QuestReward[];
+}
+
+export type QuestStep = {
+    objective: "travel" | "talk" | "fetch" | "deliver" | "defeat" | "explore" | "escort";
+    description: string;            // what niala does. one sentence.
+    region: string;                 // region_name where the step takes place
+    building?: string;              // building_name of a building in that region (or at one of its geo features)
+    feature?: string;               // feature_name of a geo feature in that region
+    target_human?: string;          // human_name of who to talk to, deliver to, escort or defeat
+    required_artifacts?: string[];  // names of artifacts niala needs to carry to complete the step
+}
+
+export type QuestReward = {
+    description: string;            // what niala gets. one sentence.
+    artifact?: string;              // name of an artifact on the island that niala receives
+    opens_route_to?: string;        // region_name of a region a closed route leads to; the reward opens it
+}
+
+
 ///////////
 //
 // ARTIFACTS
@@ -135,11 +213,11 @@ export type Artifact = {
 //
 // BEINGS
 // Beings are living entities that can be interacted with
-// Humans, animals, and monsters
+// Humans, animals, and monsters. every being is one of them, tagged with its kind
 //
 ///////////
 
-// BEING interface
+// BEING is what all beings share
 export interface Being {
     demeanor: "Friendly" | "Neutral" | "Hostile";
     demeanor_strength: number;
@@ -151,6 +229,7 @@ export interface Being {
 
 // HUMAN interface
 export interface Human extends Being {
+    kind: "human";
     human_name: string;             // the name of the human, unique within the game
     current_activity: string;
     intended_goal: string;
@@ -160,16 +239,20 @@ export interface Human extends Being {
 
 // MONSTER interface
 export interface Monster extends Being {
+    kind: "monster";
     species: "wirulf" | "Decimator" | "Ecomental" | "goblin" | "orc" | "troll" | "dragon" | "wyvern" | "giant" | "beast" | "undead" | "elemental" | "demon" | "angel" | "monster" | "creature" | "boss";
  }
 
 // ANIMAL interface
 export interface Animal extends Being {
+    kind: "animal";
     species: "wolf" | "crow" | "deer" | "rabbit" | "fox" | "bear" | "owl" | "eagle" | "hawk" | "sparrow" | "seagull" | "pigeon" | "panther" | "lynx";
 }
 
+// SEAANIMAL lives in or by the water: on the coast, in a lake or river, or around a dock
 export interface SeaAnimal extends Being {
+    kind: "sea_animal";
     species: "whale" | "dolphin" | "seal" | "squid" | "octopus" | "jellyfish" | "starfish" | "crab" | "lobster" | "eel";
 }
 
-export type Fauna = Being | Human | Monster | Animal | SeaAnimal;
+export type Fauna = Human | Monster | Animal | SeaAnimal;
@@ -0,0 +1,182 @@
+import crypto from "crypto";
+import { Island } from "./io_schema";
+import { migrateIsland } from "./migrate";
+import { createRecordFiles } from "./record_files";
+
+// File-backed island repository with version history.
+// Each island is one json file, <dir>/<id>.json, holding every version ever produced for it:
+// the first result, each modify, each revert, each re-layout and each generated insert.
+// Versions are never rewritten, only appended. Versions saved under an older schema are upgraded to the current
+// one as they're read (see migrate.ts), and written back upgraded the next time the island is saved.
+
+/** Where a version came from */
+export type VersionSource = "prompt" | "modify" | "revert" | "layout" | "generate";
+
+export type IslandVersion = {
+    version: number;                // 1-based, monotonic per island
+    created_at: string;             // ISO timestamp
+    source: VersionSource;
+    prompt?: string;                // the user prompt that produced this version
+    partial: boolean;               // true if it still had validation errors (a result_partial)
+    reverted_from?: number;         // for source "revert": the version that was restored
+    data: Island;
+};
+
+export type IslandRecord = {
+    id: string;
+    island_name: string;
+    created_at: string;
+    updated_at: string;
+    versions: IslandVersion[];
+};
+
+/** A record without the version payloads, for listings */
+export type IslandSummary = {
+    id: string;
+    island_name: string;
+    created_at: string;
+    updated_at: string;
+    latest_version: number;
+};
+
+/** Describes a new version; `version` and `created_at` are assigned by the store */
+export type VersionInfo = {
+    source: VersionSource;
+    prompt?: string;
+    partial?: boolean;
+    reverted_from?: number;
+};
+
+export interface IslandStore {
+    list(): Promise<IslandSummary[]>;
+    get(id: string): Promise<IslandRecord | undefined>;
+    /** Returns the given version, or the latest when `version` is omitted */
+    getVersion(id: string, version?: number): Promise<IslandVersion | undefined>;
+    /** Stores a brand new island; returns its id and first version */
+    create(data: Island, info: VersionInfo): Promise<{ id: string; version: IslandVersion }>;
+    /** Appends a version to an existing island; undefined if the island doesn't exist */
+    addVersion(id: string, data: Island, info: VersionInfo): Promise<IslandVersion | undefined>;
+    /** Appends a copy of an old version as the new latest; undefined if the island or version doesn't exist */
+    revert(id: string, version: number): Promise<IslandVersion | undefined>;
+}
+
+/**
+ * Creates a file-backed island store in the given directory (created if missing).
+ * Writes to one island are serialized, and each write replaces the file atomically.
+ * @param dir Directory to keep the island files in.
+ */
+export function createIslandStore(dir: string): IslandStore {
+    const files = createRecordFiles<IslandRecord>(dir);
+
+    const store: IslandStore = {
+        list,
+        get,
+        getVersion,
+        create,
+        addVersion,
+        revert
+    };
+    return store;
+
+    async function list(): Promise<IslandSummary[]> {
+        const summaries: IslandSummary[] = [];
+        for (const id of await files.ids()) {
+            const record = await get(id);
+            if (record) summaries.push(summarize(record));
+        }
+        return summaries.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    }
+
+    async function get(id: string): Promise<IslandRecord | undefined> {
+        const record = await files.read(id);
+        return record && upgrade(record);
+    }
+
+    async function getVersion(id: string, version?: number): Promise<IslandVersion | undefined> {
+        const record = await get(id);
+        if (!record) return undefined;
+        return version === undefined
+            ? record.versions[record.versions.length - 1]
+            : record.versions.find(v => v.version === version);
+    }
+
+    async function create(data: Island, info: VersionInfo): Promise<{ id: string; version: IslandVersion }> {
+        const id = crypto.randomUUID();
+        const now = new Date().toISOString();
+        const version = makeVersion(1, now, data, info);
+        await files.write(id, { id, island_name: data.island_name, created_at: now, updated_at: now, versions: [version] });
+        return { id, version };
+    }
+
+    function addVersion(id: string, data: Island, info: VersionInfo): Promise<IslandVersion | undefined> {
+        return files.exclusive(id, async () => {
+            const record = await get(id);
+            if (!record) return undefined;
+            return append(record, data, info);
+        });
+    }
+
+    function revert(id: string, version: number): Promise<IslandVersion | undefined> {
+        return files.exclusive(id, async () => {
+            const record = await get(id);
+            const old = record?.versions.find(v => v.version === version);
+            if (!record || !old) return undefined;
+            return append(record, old.data, { source: "revert", reverted_from: version, partial: old.partial });
+        });
+    }
+
+    async function append(record: IslandRecord, data: Island, info: VersionInfo): Promise<IslandVersion> {
+        const now = new Date().toISOString();
+        const latest = record.versions[record.versions.length - 1];
+        const version = makeVersion((latest?.version ?? 0) + 1, now, data, info);
+        record.versions.push(version);
+        record.island_name = data.island_name ?? record.island_name;
+        record.updated_at = now;
+        await files.write(record.id, record);
+        return version;
+    }
+}
+
+function upgrade(record: IslandRecord): IslandRecord {
+    upgradeRecord(record);
+    return record;
+}
+
+function makeVersion(version: number, created_at: string, data: Island, info: VersionInfo): IslandVersion {
+    return {
+        version,
+        created_at,
+        source: info.source,
+        ...(info.prompt !== undefined ? { prompt: info.prompt } : {}),
+        partial: info.partial ?? false,
+        ...(info.reverted_from !== undefined ? { reverted_from: info.reverted_from } : {}),
+        data
+    };
+}
+
+/**
+ * Upgrades every version of a record to the current schema, in place. A version that can't be upgraded
+ * (from a newer schema) is left as it is.
+ * @returns The number of versions that were upgraded.
+ */
+export function upgradeRecord(record: IslandRecord): number {
+    let upgraded = 0;
+    for (const version of record.versions ?? []) {
+        const migrated = migrateIsland(version.data);
+        if (migrated.success && migrated.data.from !== migrated.data.to) {
+            version.data = migrated.data.island;
+            upgraded++;
+        }
+    }
+    return upgraded;
+}
+
+export function summarize(record: IslandRecord): IslandSummary {
+    return {
+        id: record.id,
+        island_name: record.island_name,
+        created_at: record.created_at,
+        updated_at: record.updated_at,
+        latest_version: record.versions[record.versions.length - 1]?.version ?? 0
+    };
+}
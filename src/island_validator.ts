@@ -0,0 +1,657 @@
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+import { Animal, Artifact, Biome, Building, Fauna, GeoFeature, Human, Island, Quest, Region, Route, Topography, World } from "./io_schema";
+import { IslandSkeleton, RegionOutline } from "./skeleton_schema";
+import { Dialogue } from "./dialogue_schema";
+
+// Semantic validation for islands: the checks the TypeScript schema can't express.
+// The schema validator tells us the JSON has the right shape; this tells us the world graph hangs together:
+//  - every Route.destination_name names a region that exists, and every destination_feature a geo feature in it
+//  - region names, region numbers, feature names, building names and human names are unique
+//  - region numbers are consecutive (no gaps, no collisions)
+//  - every region can be reached by following routes from the starting_routes
+//  - geo features suit their region's topography and biome (no marsh in the dunes)
+//  - each kind of being follows its own rules: boss monsters are boss strength, deer don't hunt, sea animals live by water
+//  - quests refer to humans, places and artifacts that exist, and their steps can be done in order along the routes
+//  - dialogues are spoken by a human on the island, and their graph hangs together: every choice leads to a node
+//    that exists, every node can be reached from the start, and the conversation can always end
+//
+// Messages are written for the repair prompt, so each one names the exact JSON location and what would fix it.
+// The graph checks only need region headers and routes, so they also work on an IslandSkeleton.
+// Worlds get the same treatment one level up: island names are unique and island routes lead somewhere real.
+
+/**
+ * The topographies and biomes each kind of geo feature can't be in. A lake can sit in a crater or a valley,
+ * but not among dunes; a waterfall needs somewhere to fall from.
+ */
+export const featureConflicts: Record<GeoFeature["feature_type"], { topographies: Topography[]; biomes: Biome[] }> = {
+    hill: { topographies: ["flat", "wetlands"], biomes: [] },
+    mountain: { topographies: ["flat", "wetlands", "dunes", "islets"], biomes: ["saltmarsh", "wetlands", "beach"] },
+    valley: { topographies: ["flat", "islets"], biomes: [] },
+    lake: { topographies: ["dunes", "cliffs"], biomes: ["desert"] },
+    plateau: { topographies: ["wetlands", "dunes", "islets"], biomes: ["saltmarsh", "wetlands", "beach"] },
+    canyon: { topographies: ["flat", "wetlands", "dunes", "islets"], biomes: ["saltmarsh", "wetlands", "beach"] },
+    river: { topographies: ["dunes", "crater"], biomes: [] },
+    waterfall: { topographies: ["flat", "dunes", "wetlands", "islets"], biomes: ["desert"] },
+    marsh: { topographies: ["dunes", "cliffs", "craggy", "canyon"], biomes: ["desert", "rocky", "beach"] }
+};
+
+/** A being together with where it lives: its JSON location, and the region, geo feature and building it's in */
+export type LocatedBeing = {
+    path: string;
+    being: Fauna;
+    region: Region;
+    feature?: GeoFeature;
+    building?: Building;
+};
+
+/** A route together with the JSON location it was found at, e.g. `regions[2].shortcut` */
+export type LocatedRoute = {
+    path: string;
+    from?: string;          // region_name of the region the route leaves from; undefined for starting_routes
+    route: Route;
+};
+
+/**
+ * Collects every route in the island, including where it lives in the document.
+ */
+export function collectRoutes(island: IslandSkeleton): LocatedRoute[] {
+    const routes: LocatedRoute[] = [];
+    (island.starting_routes ?? []).forEach((route, i) => routes.push({ path: `starting_routes[${i}]`, route }));
+    (island.regions ?? []).forEach((region, r) => {
+        for (const located of regionRoutes(region)) {
+            routes.push({ path: `regions[${r}].${located.path}`, from: region.region_name, route: located.route });
+        }
+    });
+    return routes;
+}
+
+/**
+ * Returns the outgoing routes of a single region, with paths relative to the region.
+ */
+export function regionRoutes(region: RegionOutline): { path: string; route: Route }[] {
+    const routes: { path: string; route: Route }[] = [];
+    if (region.next_area) routes.push({ path: "next_area", route: region.next_area });
+    if (region.shortcut) routes.push({ path: "shortcut", route: region.shortcut });
+    (region.other_routes ?? []).forEach((route, i) => routes.push({ path: `other_routes[${i}]`, route }));
+    return routes;
+}
+
+/**
+ * Returns a region's geo features. Region outlines have none; they're generated with the region's contents.
+ */
+export function geoFeatures(region: RegionOutline | Region): GeoFeature[] {
+    const features = "geo_features" in region ? region.geo_features : undefined;
+    return Array.isArray(features) ? features : [];
+}
+
+/**
+ * Collects every being on the island, in regions, buildings and geo features, with where it lives.
+ */
+export function collectFauna(island: Island): LocatedBeing[] {
+    const fauna: LocatedBeing[] = [];
+    const add = (beings: Fauna[] | undefined, path: string, place: Omit<LocatedBeing, "path" | "being">) =>
+        (beings ?? []).forEach((being, f) => fauna.push({ path: `${path}[${f}]`, being, ...place }));
+    const addBuildings = (buildings: Building[] | undefined, path: string, place: Omit<LocatedBeing, "path" | "being">) =>
+        (buildings ?? []).forEach((building, b) => add(building.inhabitants, `${path}[${b}].inhabitants`, { ...place, building }));
+    (island.regions ?? []).forEach((region, r) => {
+        add(region.fauna, `regions[${r}].fauna`, { region });
+        addBuildings(region.buildings, `regions[${r}].buildings`, { region });
+        geoFeatures(region).forEach((feature, g) => {
+            add(feature.fauna, `regions[${r}].geo_features[${g}].fauna`, { region, feature });
+            addBuildings(feature.buildings, `regions[${r}].geo_features[${g}].buildings`, { region, feature });
+        });
+    });
+    return fauna;
+}
+
+/**
+ * Returns the names of every region reachable from the island's starting routes, following any route
+ * (open or closed, since closed routes can be opened during play).
+ */
+export function reachableRegions(island: IslandSkeleton): Set<string> {
+    return reachableFrom(island, (island.starting_routes ?? []).map(r => r.destination_name));
+}
+
+/**
+ * Returns the names of every region reachable from the given regions (themselves included), following any route.
+ */
+export function reachableFrom(island: IslandSkeleton, regionNames: string[]): Set<string> {
+    const byName = new Map((island.regions ?? []).map(r => [r.region_name, r] as const));
+    const reached = new Set<string>();
+    const queue: string[] = [...regionNames];
+
+    while (queue.length > 0) {
+        const name = queue.shift()!;
+        const region = byName.get(name);
+        if (!region || reached.has(name)) continue;
+        reached.add(name);
+        for (const { route } of regionRoutes(region)) {
+            queue.push(route.destination_name);
+        }
+    }
+    return reached;
+}
+
+/**
+ * Checks the region headers and route graph: names, numbers, route destinations and reachability.
+ * Returns a list of human (and LLM) readable problems. Empty means valid.
+ */
+export function findGraphProblems(island: IslandSkeleton): string[] {
+    const problems: string[] = [];
+    const regions = island.regions ?? [];
+    const regionNames = regions.map(r => r.region_name);
+    const knownNames = new Set(regionNames);
+    const nameList = regionNames.map(n => `"${n}"`).join(", ");
+
+    if (regions.length === 0) {
+        problems.push(`regions is empty; an island needs at least one region.`);
+    }
+    if ((island.starting_routes ?? []).length === 0) {
+        problems.push(`starting_routes is empty; at least one route must lead onto the island.`);
+    }
+
+    // uniqueness of region names
+    for (const [name, indices] of duplicates(regionNames)) {
+        problems.push(`region_name "${name}" is used by more than one region (${indices.map(i => `regions[${i}]`).join(", ")}); region names must be unique.`);
+    }
+
+    // region numbers: unique and consecutive
+    const numbers = regions.map(r => r.region_number);
+    for (const [num, indices] of duplicates(numbers)) {
+        problems.push(`region_number ${num} is used by more than one region (${indices.map(i => `regions[${i}]`).join(", ")}); region numbers must be unique.`);
+    }
+    const sorted = [...new Set(numbers)].sort((a, b) => a - b);
+    if (sorted.length > 0) {
+        if (sorted[0] !== 0 && sorted[0] !== 1) {
+            problems.push(`region_number should start at 0 or 1, but the lowest is ${sorted[0]}.`);
+        }
+        for (let i = 1; i < sorted.length; i++) {
+            if (sorted[i] !== sorted[i - 1] + 1) {
+                problems.push(`region_number skips from ${sorted[i - 1]} to ${sorted[i]}; region numbers must be consecutive.`);
+            }
+        }
+    }
+
+    // referential integrity of routes
+    for (const { path, route } of collectRoutes(island)) {
+        if (!knownNames.has(route.destination_name)) {
+            problems.push(`${path}.destination_name "${route.destination_name}" does not match any region_name. Valid region names are: ${nameList}.`);
+        }
+    }
+
+    // reachability from the starting routes
+    const reached = reachableRegions(island);
+    regions.forEach((region, i) => {
+        if (!reached.has(region.region_name)) {
+            problems.push(`regions[${i}] "${region.region_name}" cannot be reached from any starting_routes; add a route whose destination_name is "${region.region_name}".`);
+        }
+    });
+
+    return problems;
+}
+
+/**
+ * Runs every semantic check and returns a list of human (and LLM) readable problems. Empty means valid.
+ */
+export function findIslandProblems(island: Island): string[] {
+    const problems = findGraphProblems(island);
+    const regions = island.regions ?? [];
+
+    // feature, building and human names should be unique across the island
+    const featureNames: string[] = [];
+    const featurePaths: string[] = [];
+    const buildingNames: string[] = [];
+    const buildingPaths: string[] = [];
+    const noteBuildings = (buildings: Building[] | undefined, path: string) => (buildings ?? []).forEach((building, b) => {
+        buildingNames.push(building.building_name);
+        buildingPaths.push(`${path}[${b}]`);
+    });
+    regions.forEach((region, r) => {
+        noteBuildings(region.buildings, `regions[${r}].buildings`);
+        geoFeatures(region).forEach((feature, g) => {
+            featureNames.push(feature.feature_name);
+            featurePaths.push(`regions[${r}].geo_features[${g}]`);
+            noteBuildings(feature.buildings, `regions[${r}].geo_features[${g}].buildings`);
+        });
+    });
+    const fauna = collectFauna(island);
+    const humans = fauna.filter((located): located is LocatedBeing & { being: Human } => located.being.kind === "human");
+    const humanNames = humans.map(h => h.being.human_name);
+    const humanPaths = humans.map(h => h.path);
+    for (const [name, indices] of duplicates(featureNames)) {
+        problems.push(`feature_name "${name}" is used more than once (${indices.map(i => featurePaths[i]).join(", ")}); feature names must be unique.`);
+    }
+    for (const [name, indices] of duplicates(buildingNames)) {
+        problems.push(`building_name "${name}" is used more than once (${indices.map(i => buildingPaths[i]).join(", ")}); building names must be unique.`);
+    }
+    for (const [name, indices] of duplicates(humanNames)) {
+        problems.push(`human_name "${name}" is used more than once (${indices.map(i => humanPaths[i]).join(", ")}); human names must be unique.`);
+    }
+
+    // geo features have to suit the land they're in
+    regions.forEach((region, r) => {
+        geoFeatures(region).forEach((feature, g) => {
+            const conflicts = featureConflicts[feature.feature_type];
+            if (!conflicts) return;
+            const clashes: string[] = [];
+            if (conflicts.topographies.includes(region.topography)) clashes.push(`${region.topography} topography`);
+            if (conflicts.biomes.includes(region.biome)) clashes.push(`${region.biome} biome`);
+            if (clashes.length > 0) {
+                problems.push(`regions[${r}].geo_features[${g}] "${feature.feature_name}" is a ${feature.feature_type}, which doesn't fit ` +
+                    `the region's ${clashes.join(" and ")}; choose another feature_type, or move it to a region where it fits.`);
+            }
+        });
+    });
+
+    // each kind of being has its own rules
+    for (const located of fauna) {
+        problems.push(...findBeingProblems(located));
+    }
+
+    // routes that lead to a feature need the feature to be in their destination
+    const byName = new Map(regions.map(region => [region.region_name, region]));
+    for (const { path, route } of collectRoutes(island)) {
+        const destination = byName.get(route.destination_name);
+        if (route.destination_feature === undefined || !destination) continue;
+        const names = geoFeatures(destination).map(f => f.feature_name);
+        if (!names.includes(route.destination_feature)) {
+            problems.push(`${path}.destination_feature "${route.destination_feature}" is not a geo feature of "${route.destination_name}". ` +
+                (names.length > 0
+                    ? `Its features are: ${names.map(n => `"${n}"`).join(", ")}.`
+                    : `It has no geo_features; add one with that feature_name, or remove destination_feature.`));
+        }
+    }
+
+    // quests: unique names, and everything they refer to is on the island, in reach
+    const quests = island.quests ?? [];
+    for (const [name, indices] of duplicates(quests.map(q => q.quest_name))) {
+        problems.push(`quest_name "${name}" is used more than once (${indices.map(i => `quests[${i}]`).join(", ")}); quest names must be unique.`);
+    }
+    const index = indexIsland(island);
+    quests.forEach((quest, q) => problems.push(...findQuestProblems(island, quest, `quests[${q}]`, index)));
+
+    return problems;
+}
+
+/**
+ * Checks that a quest fits an island: its giver, places, people and artifacts exist, and its steps can be
+ * done in order, each step's region reachable by route from the one before (starting where the giver is).
+ * @param path Where the quest is, for the messages; "" for a quest on its own.
+ */
+export function findQuestProblems(island: Island, quest: Quest, path: string, index = indexIsland(island)): string[] {
+    const problems: string[] = [];
+    const at = (field: string) => path ? `${path}.${field}` : field;
+    const known = (names: Iterable<string>) => {
+        const list = [...names].map(n => `"${n}"`);
+        return list.length > 0 ? list.join(", ") : "(none)";
+    };
+
+    // where niala starts the quest: with the giver
+    const giver = index.humans.get(quest.giver);
+    if (!giver) {
+        problems.push(`${at("giver")} "${quest.giver}" is not the human_name of any human on the island. Humans are: ${known(index.humans.keys())}.`);
+    } else if (!index.reachable.has(giver.region.region_name)) {
+        problems.push(`${at("giver")} "${quest.giver}" is in "${giver.region.region_name}", which can't be reached from the starting routes.`);
+    }
+
+    if ((quest.steps ?? []).length === 0) {
+        problems.push(`${at("steps")} is empty; a quest needs at least one step.`);
+    }
+    let previous: { region: string; what: string } | undefined = giver ? { region: giver.region.region_name, what: `the giver's region` } : undefined;
+    (quest.steps ?? []).forEach((step, i) => {
+        const where = at(`steps[${i}]`);
+        const region = index.regions.get(step.region);
+        if (!region) {
+            problems.push(`${where}.region "${step.region}" does not match any region_name. Valid region names are: ${known(index.regions.keys())}.`);
+            previous = undefined;
+            return;
+        }
+
+        const features = geoFeatures(region);
+        const feature = step.feature !== undefined ? features.find(f => f.feature_name === step.feature) : undefined;
+        if (step.feature !== undefined && !feature) {
+            problems.push(`${where}.feature "${step.feature}" is not a geo feature of "${region.region_name}". Its features are: ${known(features.map(f => f.feature_name))}.`);
+        }
+        if (step.building !== undefined) {
+            const buildings = feature ? feature.buildings ?? [] : [...(region.buildings ?? []), ...features.flatMap(f => f.buildings ?? [])];
+            if (!buildings.some(b => b.building_name === step.building)) {
+                problems.push(`${where}.building "${step.building}" is not a building in "${feature?.feature_name ?? region.region_name}". ` +
+                    `Its buildings are: ${known(buildings.map(b => b.building_name))}.`);
+            }
+        }
+        if (step.target_human !== undefined) {
+            const target = index.humans.get(step.target_human);
+            if (!target) {
+                problems.push(`${where}.target_human "${step.target_human}" is not the human_name of any human on the island. Humans are: ${known(index.humans.keys())}.`);
+            } else if ((step.objective === "talk" || step.objective === "deliver") && target.region.region_name !== region.region_name) {
+                problems.push(`${where} is to ${step.objective === "talk" ? "talk to" : "deliver to"} "${step.target_human}" in "${region.region_name}", ` +
+                    `but they are in "${target.region.region_name}".`);
+            }
+        }
+        for (const name of step.required_artifacts ?? []) {
+            const regions = index.artifacts.get(name);
+            if (!regions) {
+                problems.push(`${where}.required_artifacts names "${name}", which is not the name of any artifact on the island.`);
+            } else if (!regions.some(r => index.reachable.has(r))) {
+                problems.push(`${where}.required_artifacts names "${name}", but it's only in regions that can't be reached from the starting routes.`);
+            }
+        }
+
+        // in order: each step where the last one left off, or somewhere reachable from there
+        if (previous && !reachableFrom(island, [previous.region]).has(region.region_name)) {
+            problems.push(`${where} takes place in "${region.region_name}", which can't be reached by any route from "${previous.region}" ` +
+                `(${previous.what}). Reorder the steps, or choose a region reachable from there.`);
+        }
+        previous = { region: region.region_name, what: `the region of steps[${i}]` };
+    });
+
+    (quest.rewards ?? []).forEach((reward, i) => {
+        const where = at(`rewards[${i}]`);
+        if (reward.artifact !== undefined && !index.artifacts.has(reward.artifact)) {
+            problems.push(`${where}.artifact "${reward.artifact}" is not the name of any artifact on the island; add it where the giver can hand it over.`);
+        }
+        if (reward.opens_route_to !== undefined) {
+            if (!index.regions.has(reward.opens_route_to)) {
+                problems.push(`${where}.opens_route_to "${reward.opens_route_to}" does not match any region_name. Valid region names are: ${known(index.regions.keys())}.`);
+            } else if (!collectRoutes(island).some(({ route }) => !route.open && route.destination_name === reward.opens_route_to)) {
+                problems.push(`${where}.opens_route_to "${reward.opens_route_to}", but no closed route leads there; close one, or remove opens_route_to.`);
+            }
+        }
+    });
+    return problems;
+}
+
+/**
+ * Semantic validator for a quest on its own, against the island it's for.
+ */
+export function createQuestValidator(island: Island): (quest: Quest) => Result<Quest> {
+    const index = indexIsland(island);
+    return quest => {
+        const problems = findQuestProblems(island, quest, "", index);
+        return problems.length > 0 ? error(problems.join("\n")) : success(quest);
+    };
+}
+
+/**
+ * Semantic validator suitable for `Mythographer.validateInstance`.
+ */
+export function validateIsland(island: Island): Result<Island> {
+    const problems = findIslandProblems(island);
+    if (problems.length > 0) {
+        return error(problems.join("\n"));
+    }
+    return success(island);
+}
+
+/**
+ * Semantic validator for island skeletons, which have no region contents yet.
+ */
+export function validateSkeleton(skeleton: IslandSkeleton): Result<IslandSkeleton> {
+    const problems = findGraphProblems(skeleton);
+    if (problems.length > 0) {
+        return error(problems.join("\n"));
+    }
+    return success(skeleton);
+}
+
+/**
+ * Returns every problem with a world's own parts: island names, the routes between islands, and faction homes.
+ * Each island's internal problems are left to `findIslandProblems`.
+ */
+export function findWorldProblems(world: World): string[] {
+    const problems: string[] = [];
+    const islands = world.islands ?? [];
+    const byName = new Map(islands.map(island => [island.island_name, island]));
+
+    for (const [name, indices] of duplicates(islands.map(island => island.island_name))) {
+        problems.push(`island_name "${name}" is used more than once (${indices.map(i => `islands[${i}]`).join(", ")}); island names must be unique in the world.`);
+    }
+    for (const [name, indices] of duplicates((world.canon?.factions ?? []).map(f => f.faction_name))) {
+        problems.push(`faction_name "${name}" is used more than once (${indices.map(i => `canon.factions[${i}]`).join(", ")}); faction names must be unique.`);
+    }
+
+    const hasRegion = (island: Island | undefined, regionName: string) => (island?.regions ?? []).some(r => r.region_name === regionName);
+    (world.island_routes ?? []).forEach((route, i) => {
+        const where = `island_routes[${i}]`;
+        const from = byName.get(route.from_island);
+        const to = byName.get(route.destination_island);
+        if (!from) {
+            problems.push(`${where}.from_island "${route.from_island}" does not match any island_name. Use one of: ${[...byName.keys()].join(", ")}.`);
+        }
+        if (!to) {
+            problems.push(`${where}.destination_island "${route.destination_island}" does not match any island_name. Use one of: ${[...byName.keys()].join(", ")}.`);
+        }
+        if (route.from_island === route.destination_island) {
+            problems.push(`${where} leads from "${route.from_island}" to itself; routes within an island belong in the island's regions.`);
+        }
+        if (from && route.from_region !== undefined && !hasRegion(from, route.from_region)) {
+            problems.push(`${where}.from_region "${route.from_region}" is not a region of "${route.from_island}".`);
+        }
+        if (to && route.destination_name !== undefined && !hasRegion(to, route.destination_name)) {
+            problems.push(`${where}.destination_name "${route.destination_name}" is not a region of "${route.destination_island}".`);
+        }
+    });
+
+    (world.canon?.factions ?? []).forEach((faction, i) => {
+        if (faction.home_island !== undefined && !byName.has(faction.home_island)) {
+            problems.push(`canon.factions[${i}].home_island "${faction.home_island}" does not match any island_name.`);
+        }
+    });
+    return problems;
+}
+
+/**
+ * Semantic validator for worlds.
+ */
+export function validateWorld(world: World): Result<World> {
+    const problems = findWorldProblems(world);
+    if (problems.length > 0) {
+        return error(problems.join("\n"));
+    }
+    return success(world);
+}
+
+/**
+ * Checks a dialogue's graph: node ids are unique and usable as Ink knot and Yarn node names, the start and every
+ * choice lead to a node that exists, every node can be reached from the start, and the conversation can end from
+ * every node. Returns a list of problems; empty means valid.
+ */
+export function findDialogueGraphProblems(dialogue: Dialogue): string[] {
+    const problems: string[] = [];
+    const nodes = dialogue.nodes ?? [];
+    const ids = new Set(nodes.map(node => node.node_id));
+    const known = () => [...ids].map(id => `"${id}"`).join(", ");
+
+    if (nodes.length === 0) {
+        return [`nodes is empty; a dialogue needs at least one node.`];
+    }
+    for (const [id, indices] of duplicates(nodes.map(node => node.node_id))) {
+        problems.push(`node_id "${id}" is used more than once (${indices.map(i => `nodes[${i}]`).join(", ")}); node ids must be unique.`);
+    }
+    nodes.forEach((node, i) => {
+        if (!/^[a-z][a-z0-9_]*$/.test(node.node_id)) {
+            problems.push(`nodes[${i}].node_id "${node.node_id}" must start with a lowercase letter and have only lowercase letters, digits and _ in it.`);
+        }
+        (node.choices ?? []).forEach((choice, c) => {
+            if (!ids.has(choice.next)) {
+                problems.push(`nodes[${i}].choices[${c}].next "${choice.next}" does not match any node_id. Use one of: ${known()}.`);
+            }
+        });
+    });
+    if (!ids.has(dialogue.start)) {
+        problems.push(`start "${dialogue.start}" does not match any node_id. Use one of: ${known()}.`);
+        return problems;
+    }
+
+    // forward from the start, and back from the nodes that end the conversation
+    const byId = new Map(nodes.map(node => [node.node_id, node]));
+    const reached = new Set<string>();
+    const queue = [dialogue.start];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (reached.has(id) || !byId.has(id)) continue;
+        reached.add(id);
+        (byId.get(id)!.choices ?? []).forEach(choice => queue.push(choice.next));
+    }
+    const ending = new Set(nodes.filter(node => (node.choices ?? []).length === 0).map(node => node.node_id));
+    let grew = true;
+    while (grew) {
+        grew = false;
+        for (const node of nodes) {
+            if (!ending.has(node.node_id) && (node.choices ?? []).some(choice => ending.has(choice.next))) {
+                ending.add(node.node_id);
+                grew = true;
+            }
+        }
+    }
+
+    nodes.forEach((node, i) => {
+        if (!reached.has(node.node_id)) {
+            problems.push(`nodes[${i}] ("${node.node_id}") can't be reached from start "${dialogue.start}". Add a choice that leads to it, or remove it.`);
+        } else if (!ending.has(node.node_id)) {
+            problems.push(`nodes[${i}] ("${node.node_id}") never leads to a node without choices, so the conversation can't end from there. ` +
+                `Add a choice that leads towards a goodbye.`);
+        }
+    });
+    return problems;
+}
+
+/**
+ * Checks that a dialogue fits an island: on top of its graph, the speaker is one of the island's humans, the
+ * conditions name artifacts and quests that exist, and demeanor shifts are small steps.
+ */
+export function findDialogueProblems(island: Island, dialogue: Dialogue): string[] {
+    const problems = findDialogueGraphProblems(dialogue);
+    const index = indexIsland(island);
+    const quests = new Set((island.quests ?? []).map(q => q.quest_name));
+    const known = (names: Iterable<string>) => {
+        const list = [...names].map(n => `"${n}"`);
+        return list.length > 0 ? list.join(", ") : "(none)";
+    };
+
+    if (!index.humans.has(dialogue.speaker)) {
+        problems.push(`speaker "${dialogue.speaker}" is not the human_name of any human on the island. Humans are: ${known(index.humans.keys())}.`);
+    }
+    (dialogue.nodes ?? []).forEach((node, i) => (node.choices ?? []).forEach((choice, c) => {
+        const where = `nodes[${i}].choices[${c}]`;
+        (choice.conditions ?? []).forEach((condition, k) => {
+            if (condition.kind === "quest_state") {
+                if (!quests.has(condition.quest)) {
+                    problems.push(`${where}.conditions[${k}].quest "${condition.quest}" is not the quest_name of any quest on the island. Quests are: ${known(quests)}.`);
+                }
+            } else if (!index.artifacts.has(condition.artifact)) {
+                problems.push(`${where}.conditions[${k}].artifact "${condition.artifact}" is not the name of any artifact on the island. Artifacts are: ${known(index.artifacts.keys())}.`);
+            }
+        });
+        const shift = choice.demeanor_shift;
+        if (shift && (shift.strength_change === 0 || Math.abs(shift.strength_change) > 5)) {
+            problems.push(`${where}.demeanor_shift.strength_change is ${shift.strength_change}; it must be between -5 and 5, and not 0.`);
+        }
+    }));
+    return problems;
+}
+
+/**
+ * A validator suitable for `Mythographer.validateInstance` that checks a dialogue against an island, and that
+ * it's spoken by `speaker`.
+ */
+export function createDialogueValidator(island: Island, speaker: string): (dialogue: Dialogue) => Result<Dialogue> {
+    return dialogue => {
+        const problems = findDialogueProblems(island, dialogue);
+        if (dialogue.speaker !== speaker) {
+            problems.unshift(`speaker is "${dialogue.speaker}", but this dialogue is for "${speaker}".`);
+        }
+        return problems.length > 0 ? error(problems.join("\n")) : success(dialogue);
+    };
+}
+
+// ===== 🔷 Quests =====
+
+/** The named things on an island a quest can refer to */
+type IslandIndex = {
+    regions: Map<string, Region>;
+    humans: Map<string, LocatedBeing & { being: Human }>;
+    artifacts: Map<string, string[]>;       // artifact name -> the regions it's in
+    reachable: Set<string>;                 // regions reachable from the starting routes
+};
+
+function indexIsland(island: Island): IslandIndex {
+    const regions = new Map((island.regions ?? []).map(region => [region.region_name, region]));
+    const humans = new Map<string, LocatedBeing & { being: Human }>();
+    for (const located of collectFauna(island)) {
+        if (located.being.kind === "human" && !humans.has(located.being.human_name)) {
+            humans.set(located.being.human_name, located as LocatedBeing & { being: Human });
+        }
+    }
+    const artifacts = new Map<string, string[]>();
+    const note = (list: Artifact[] | undefined, region: string) => (list ?? []).forEach(artifact => {
+        artifacts.set(artifact.name, [...(artifacts.get(artifact.name) ?? []), region]);
+    });
+    for (const region of island.regions ?? []) {
+        const holders = [region, ...geoFeatures(region)];
+        for (const holder of holders) {
+            note(holder.artifacts, region.region_name);
+            (holder.buildings ?? []).forEach(building => note(building.artifacts, region.region_name));
+        }
+    }
+    return { regions, humans, artifacts, reachable: reachableRegions(island) };
+}
+
+// ===== 🔷 Beings =====
+
+// what sea animals need nearby: any one of these will do
+const waterBiomes: Biome[] = ["saltmarsh", "wetlands", "beach", "coastal scrub"];
+const waterTopographies: Topography[] = ["wetlands", "islets"];
+const waterFeatures: GeoFeature["feature_type"][] = ["lake", "river", "waterfall", "marsh"];
+const waterBuildings: Building["building_type"][] = ["dockhouse", "lighthouse"];
+
+const grazingAnimals: Animal["species"][] = ["deer", "rabbit"];
+const predatorAnimals: Animal["species"][] = ["wolf", "panther", "lynx", "eagle", "hawk", "owl"];
+
+/** The rules for each kind of being, beyond what the schema checks */
+function findBeingProblems({ path, being, region, feature, building }: LocatedBeing): string[] {
+    const problems: string[] = [];
+    switch (being.kind) {
+        case "human":
+            if (being.human_name.trim() === "") problems.push(`${path}.human_name is empty; every human needs a name.`);
+            break;
+        case "monster":
+            if (being.species === "boss" && being.strength !== "boss") {
+                problems.push(`${path} is a boss monster, but its strength is "${being.strength}"; a boss's strength is "boss".`);
+            }
+            break;
+        case "animal":
+            if (being.intelligence === "demigod") {
+                problems.push(`${path} is a ${being.species} with demigod intelligence; an animal that clever should be a monster.`);
+            }
+            if (grazingAnimals.includes(being.species) && being.diet === "carnivore") {
+                problems.push(`${path} is a ${being.species} with a carnivore diet; a ${being.species} is a herbivore.`);
+            }
+            if (predatorAnimals.includes(being.species) && being.diet === "herbivore") {
+                problems.push(`${path} is a ${being.species} with a herbivore diet; a ${being.species} hunts.`);
+            }
+            break;
+        case "sea_animal": {
+            const nearWater = waterBiomes.includes(region.biome) || waterTopographies.includes(region.topography) ||
+                (feature !== undefined && waterFeatures.includes(feature.feature_type)) ||
+                (building !== undefined && waterBuildings.includes(building.building_type));
+            if (!nearWater) {
+                problems.push(`${path} is a ${being.species}, a sea animal, but "${region.region_name}" (${region.biome} ${region.topography}) has no water for it. ` +
+                    `Move it to a coastal or wetland region, a lake or river, or a dockhouse, or make it a different being.`);
+            }
+            break;
+        }
+    }
+    return problems;
+}
+
+/** Returns each value that appears more than once, with the indices it appears at */
+function duplicates<V>(values: V[]): [V, number[]][] {
+    const seen = new Map<V, number[]>();
+    values.forEach((v, i) => {
+        const list = seen.get(v);
+        if (list) list.push(i);
+        else seen.set(v, [i]);
+    });
+    return [...seen].filter(([, indices]) => indices.length > 1);
+}
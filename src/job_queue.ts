@@ -0,0 +1,179 @@
+// A server-wide job queue.
+// Every job makes one or more model calls, and the model endpoint (and our rate limit with it) is shared by
+// every connection, so at most `concurrency` jobs run at once and the rest wait here.
+//
+// Waiting jobs are dispatched round-robin by client rather than first-come first-served, so one client that
+// queues a lot of work (or opens a lot of tabs) can't starve everyone else: with jobs queued as
+// A1 A2 A3 B1 C1, they run as A1 B1 C1 A2 A3.
+
+import { createLogger, Logger } from "./log";
+
+/** Where a job is in its life */
+export type JobState = "queued" | "running" | "finished" | "canceled";
+
+export type JobSpec = {
+    clientId: string;                                       // fairness key: jobs are rotated between clients
+    run: (signal: AbortSignal) => Promise<void>;            // the job; should give up promptly when the signal aborts
+    onPosition?: (position: number, waiting: number) => void;   // called while queued whenever its place in line changes (1 = next)
+    onCanceled?: () => void;                                // called if the job is canceled while queued, as it will never run
+};
+
+export interface JobHandle {
+    readonly id: number;
+    readonly state: JobState;
+
+    /**
+     * Cancels the job. A queued job is removed from the queue and never runs; a running job's signal is aborted.
+     * @returns The state the job was in when canceled, or undefined if it had already finished or been canceled.
+     */
+    cancel(reason?: string): "queued" | "running" | undefined;
+}
+
+export interface JobQueue {
+    readonly concurrency: number;
+    /** Number of jobs running now */
+    readonly running: number;
+    /** Number of jobs waiting to run */
+    readonly waiting: number;
+
+    /** Adds a job to the queue. It starts right away if there's a free slot. */
+    enqueue(spec: JobSpec): JobHandle;
+}
+
+type Entry = {
+    handle: JobHandle;
+    spec: JobSpec;
+    state: JobState;
+    controller: AbortController;
+    lastNotified?: string;          // "position/waiting" last reported to onPosition
+};
+
+/**
+ * Creates a job queue that runs at most `concurrency` jobs at a time.
+ * @param concurrency The maximum number of jobs running at once (at least 1).
+ * @param log Where a job that throws, or a callback that does, gets logged; tagged with the queue's job id.
+ */
+export function createJobQueue(concurrency: number, log: Logger = createLogger()): JobQueue {
+    const limit = Math.max(1, Math.floor(concurrency));
+    const waiting = new Map<string, Entry[]>();     // per client, in arrival order
+    const rotation: string[] = [];                  // clients with waiting jobs, next to be served first
+    let running = 0;
+    let nextId = 1;
+
+    const queue: JobQueue = {
+        concurrency: limit,
+        get running() { return running; },
+        get waiting() { return [...waiting.values()].reduce((n, jobs) => n + jobs.length, 0); },
+        enqueue
+    };
+    return queue;
+
+    function enqueue(spec: JobSpec): JobHandle {
+        const entry: Entry = {
+            handle: undefined as unknown as JobHandle,
+            spec,
+            state: "queued",
+            controller: new AbortController()
+        };
+        entry.handle = {
+            id: nextId++,
+            get state() { return entry.state; },
+            cancel: (reason?: string) => cancel(entry, reason)
+        };
+
+        const jobs = waiting.get(spec.clientId);
+        if (jobs) {
+            jobs.push(entry);
+        } else {
+            waiting.set(spec.clientId, [entry]);
+            rotation.push(spec.clientId);
+        }
+        dispatch();
+        return entry.handle;
+    }
+
+    function cancel(entry: Entry, reason?: string): "queued" | "running" | undefined {
+        const previous = entry.state;
+        if (previous === "queued") {
+            entry.state = "canceled";
+            remove(entry);
+            notifyPositions();
+            entry.spec.onCanceled?.();
+            return previous;
+        }
+        if (previous === "running") {
+            entry.state = "canceled";
+            entry.controller.abort(reason ?? "Job canceled.");
+            return previous;
+        }
+        return undefined;
+    }
+
+    /** Starts waiting jobs while there are free slots, taking one job per client in turn */
+    function dispatch() {
+        while (running < limit && rotation.length > 0) {
+            const clientId = rotation.shift()!;
+            const jobs = waiting.get(clientId)!;
+            const entry = jobs.shift()!;
+            if (jobs.length > 0) {
+                rotation.push(clientId);
+            } else {
+                waiting.delete(clientId);
+            }
+            start(entry);
+        }
+        notifyPositions();
+    }
+
+    function start(entry: Entry) {
+        running++;
+        entry.state = "running";
+        entry.spec.run(entry.controller.signal)
+            .catch((err: unknown) => log.error("Queued job threw", { queue_job_id: entry.handle.id, client_id: entry.spec.clientId, error: err }))
+            .finally(() => {
+                running--;
+                if (entry.state === "running") entry.state = "finished";
+                dispatch();
+            });
+    }
+
+    function remove(entry: Entry) {
+        const clientId = entry.spec.clientId;
+        const jobs = waiting.get(clientId);
+        if (!jobs) return;
+        const index = jobs.indexOf(entry);
+        if (index >= 0) jobs.splice(index, 1);
+        if (jobs.length === 0) {
+            waiting.delete(clientId);
+            rotation.splice(rotation.indexOf(clientId), 1);
+        }
+    }
+
+    /** Tells every waiting job whose place in line (or the length of the line) changed where it now stands */
+    function notifyPositions() {
+        const order = dispatchOrder();
+        order.forEach((entry, i) => {
+            const position = i + 1;
+            const notified = `${position}/${order.length}`;
+            if (entry.lastNotified === notified) return;
+            entry.lastNotified = notified;
+            try {
+                entry.spec.onPosition?.(position, order.length);
+            } catch (err: unknown) {
+                log.error("Queue position callback threw", { queue_job_id: entry.handle.id, client_id: entry.spec.clientId, error: err });
+            }
+        });
+    }
+
+    /** The order the waiting jobs will start in, if nothing else is queued or canceled meanwhile */
+    function dispatchOrder(): Entry[] {
+        const order: Entry[] = [];
+        const remaining = rotation.map(clientId => [...waiting.get(clientId)!]);
+        while (remaining.length > 0) {
+            const jobs = remaining.shift()!;
+            order.push(jobs.shift()!);
+            if (jobs.length > 0) remaining.push(jobs);
+        }
+        return order;
+    }
+}
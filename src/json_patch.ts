@@ -0,0 +1,233 @@
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+
+// RFC 6902 JSON Patch and RFC 6901 JSON Pointer, just enough for island editing:
+// apply a patch the model returned, and diff two islands into a patch for the client.
+
+export type JsonPatchOperation =
+    | { op: "add"; path: string; value: unknown }
+    | { op: "remove"; path: string }
+    | { op: "replace"; path: string; value: unknown }
+    | { op: "move"; from: string; path: string }
+    | { op: "copy"; from: string; path: string }
+    | { op: "test"; path: string; value: unknown };
+
+/**
+ * Splits a JSON pointer ("/regions/2/buildings") into its unescaped reference tokens.
+ */
+export function parsePointer(pointer: string): string[] {
+    if (pointer === "") return [];
+    if (!pointer.startsWith("/")) {
+        throw new Error(`Invalid JSON pointer "${pointer}": must be empty or start with "/"`);
+    }
+    return pointer.slice(1).split("/").map(t => t.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Joins reference tokens into a JSON pointer, escaping "~" and "/".
+ */
+export function formatPointer(tokens: (string | number)[]): string {
+    return tokens.map(t => "/" + String(t).replace(/~/g, "~0").replace(/\//g, "~1")).join("");
+}
+
+/**
+ * Returns the value at a JSON pointer, or undefined if it doesn't exist.
+ */
+export function getAtPointer(doc: unknown, pointer: string): unknown {
+    let current: unknown = doc;
+    for (const token of parsePointer(pointer)) {
+        if (current === null || typeof current !== "object") return undefined;
+        if (Array.isArray(current)) {
+            if (!/^\d+$/.test(token)) return undefined;
+            current = current[Number(token)];
+        } else {
+            const record = current as Record<string, unknown>;
+            if (!hasOwn(record, token)) return undefined;
+            current = record[token];
+        }
+    }
+    return current;
+}
+
+/**
+ * Checks that a model response is a well-formed JSON Patch document (an array of operations).
+ */
+export function validatePatch(ops: unknown): Result<JsonPatchOperation[]> {
+    if (!Array.isArray(ops)) {
+        return error("A JSON Patch must be an array of operations.");
+    }
+    for (let i = 0; i < ops.length; i++) {
+        const op = ops[i];
+        if (op === null || typeof op !== "object" || typeof op.path !== "string") {
+            return error(`Operation ${i} must be an object with a string "path".`);
+        }
+        switch (op.op) {
+            case "add":
+            case "replace":
+            case "test":
+                if (!("value" in op)) return error(`Operation ${i} (${op.op}) is missing "value".`);
+                break;
+            case "move":
+            case "copy":
+                if (typeof op.from !== "string") return error(`Operation ${i} (${op.op}) is missing "from".`);
+                break;
+            case "remove":
+                break;
+            default:
+                return error(`Operation ${i} has unknown op "${op.op}".`);
+        }
+    }
+    return success(ops as JsonPatchOperation[]);
+}
+
+/**
+ * Applies a patch to a copy of the document. The original is never modified.
+ * @returns The patched document, or an `Error` naming the first operation that couldn't be applied.
+ */
+export function applyPatch<T>(doc: T, ops: JsonPatchOperation[]): Result<T> {
+    let result: unknown = structuredClone(doc);
+    for (let i = 0; i < ops.length; i++) {
+        const op = ops[i];
+        try {
+            switch (op.op) {
+                case "add":
+                    result = addAt(result, op.path, structuredClone(op.value));
+                    break;
+                case "remove":
+                    result = removeAt(result, op.path).doc;
+                    break;
+                case "replace":
+                    // the whole document always exists, so it can always be replaced
+                    result = op.path === ""
+                        ? structuredClone(op.value)
+                        : addAt(removeAt(result, op.path).doc, op.path, structuredClone(op.value));
+                    break;
+                case "move": {
+                    if (op.path.startsWith(op.from + "/")) throw new Error(`cannot move "${op.from}" into itself`);
+                    const removed = removeAt(result, op.from);
+                    result = addAt(removed.doc, op.path, removed.value);
+                    break;
+                }
+                case "copy":
+                    result = addAt(result, op.path, structuredClone(valueAt(result, op.from)));
+                    break;
+                case "test":
+                    if (!deepEqual(valueAt(result, op.path), op.value)) throw new Error(`test failed at "${op.path}"`);
+                    break;
+            }
+        } catch (e: any) {
+            return error(`Patch operation ${i} (${op.op} ${op.path}) failed: ${e.message}`);
+        }
+    }
+    return success(result as T);
+}
+
+/**
+ * Computes a patch that turns `before` into `after`. Objects are compared key by key and arrays index by index,
+ * so unchanged regions and buildings never appear in the patch.
+ */
+export function diffJson(before: unknown, after: unknown, pointer: string = ""): JsonPatchOperation[] {
+    if (deepEqual(before, after)) return [];
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const ops: JsonPatchOperation[] = [];
+        const common = Math.min(before.length, after.length);
+        for (let i = 0; i < common; i++) {
+            ops.push(...diffJson(before[i], after[i], `${pointer}/${i}`));
+        }
+        for (let i = before.length - 1; i >= common; i--) {
+            ops.push({ op: "remove", path: `${pointer}/${i}` });
+        }
+        for (let i = common; i < after.length; i++) {
+            ops.push({ op: "add", path: `${pointer}/${i}`, value: after[i] });
+        }
+        return ops;
+    }
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const ops: JsonPatchOperation[] = [];
+        for (const key of Object.keys(before)) {
+            const child = pointer + formatPointer([key]);
+            if (!hasOwn(after, key)) ops.push({ op: "remove", path: child });
+            else ops.push(...diffJson(before[key], after[key], child));
+        }
+        for (const key of Object.keys(after)) {
+            if (!hasOwn(before, key)) ops.push({ op: "add", path: pointer + formatPointer([key]), value: after[key] });
+        }
+        return ops;
+    }
+
+    return [{ op: "replace", path: pointer, value: after }];
+}
+
+/**
+ * Structural equality for JSON values.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every(k => hasOwn(b, k) && deepEqual(a[k], b[k]));
+    }
+    return false;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+    return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+/** Own keys only: "constructor" or "toString" is not a key of every object */
+function hasOwn(record: Record<string, unknown>, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+/** Like getAtPointer, but throws if the location doesn't exist */
+function valueAt(doc: unknown, pointer: string): unknown {
+    const value = getAtPointer(doc, pointer);
+    if (value === undefined) throw new Error(`"${pointer}" does not exist`);
+    return value;
+}
+
+/** Resolves the parent container and final token of a pointer */
+function parentOf(doc: unknown, pointer: string): { parent: Record<string, unknown> | unknown[]; token: string } {
+    const tokens = parsePointer(pointer);
+    const token = tokens.pop()!;
+    const parent = valueAt(doc, formatPointer(tokens));
+    if (parent === null || typeof parent !== "object") throw new Error(`parent of "${pointer}" is not a container`);
+    return { parent: parent as Record<string, unknown> | unknown[], token };
+}
+
+function addAt(doc: unknown, pointer: string, value: unknown): unknown {
+    if (pointer === "") return value;
+    const { parent, token } = parentOf(doc, pointer);
+    if (Array.isArray(parent)) {
+        const index = token === "-" ? parent.length : arrayIndex(token, parent.length + 1);
+        parent.splice(index, 0, value);
+    } else {
+        parent[token] = value;
+    }
+    return doc;
+}
+
+function removeAt(doc: unknown, pointer: string): { doc: unknown; value: unknown } {
+    if (pointer === "") throw new Error("cannot remove the whole document");
+    const { parent, token } = parentOf(doc, pointer);
+    if (Array.isArray(parent)) {
+        const index = arrayIndex(token, parent.length);
+        const [value] = parent.splice(index, 1);
+        return { doc, value };
+    }
+    if (!hasOwn(parent, token)) throw new Error(`"${pointer}" does not exist`);
+    const value = parent[token];
+    delete parent[token];
+    return { doc, value };
+}
+
+function arrayIndex(token: string, limit: number): number {
+    if (!/^(0|[1-9]\d*)$/.test(token) || Number(token) >= limit) {
+        throw new Error(`array index "${token}" is out of range`);
+    }
+    return Number(token);
+}
@@ -0,0 +1,301 @@
+import { Island, Route } from "./io_schema";
+import { collectRoutes } from "./island_validator";
+import { parsePointer } from "./json_patch";
+import { regionRadius } from "./terrain";
+
+// Spatial layout of an island's regions.
+// The model picks location_x / location_y / altitude more or less at random: regions overlap, a route marked
+// "north" leads south, and "up" goes down. This pass moves the regions until
+//  - no two regions overlap, given the ground each one's size covers (plus a gap between them)
+//  - a route marked north/south/east/west arrives in that direction: mostly north, say, of where it leaves from
+//  - a route marked up arrives higher than it leaves from, and down lower
+//  - regions linked by a route without a compass direction stay within walking distance of each other
+// starting from the model's own coordinates, so a layout that already works is left alone.
+// Pinned regions (hand-placed by the designer, or left alone by a modification) never move; everything else is
+// laid out around them.
+// Whatever still doesn't hold afterwards is reported as human (and LLM) readable problems, for the repair prompt.
+//
+// Coordinates are in meters with +y north and +x east, the same as the terrain rasterizer.
+
+export type LayoutOptions = {
+    pinned?: string[];              // names of regions whose coordinates and altitude must not change
+    iterations?: number;            // relaxation passes, default 400
+};
+
+export type LayoutResult = {
+    data: Island;                   // a copy of the island with the new coordinates
+    moved: string[];                // names of the regions whose coordinates or altitude changed
+    unsatisfied: string[];          // problems the layout couldn't solve
+};
+
+const GAP = 40;                     // meters of open ground between neighbouring regions
+const CLIMB = 20;                   // the least an up or down route changes altitude by, in meters
+const MAX_LINK = 3;                 // regions joined by a route are at most this many times their touching distance apart
+const CONE = 1;                     // a route heading north may drift at most this far east or west per meter north
+
+type Node = {
+    x: number;
+    y: number;
+    altitude: number;
+    radius: number;
+    pinned: boolean;
+};
+
+type Link = {
+    path: string;                   // where the route is, e.g. regions[2].next_area
+    from: number;                   // region indices
+    to: number;
+    route: Route;
+};
+
+const compass: Record<string, [number, number]> = {
+    north: [0, 1],
+    south: [0, -1],
+    east: [1, 0],
+    west: [-1, 0]
+};
+
+/**
+ * Lays out an island's regions. The island itself isn't modified.
+ */
+export function layoutIsland(island: Island, options: LayoutOptions = {}): LayoutResult {
+    const data = structuredClone(island);
+    const regions = data.regions ?? [];
+    const pinned = new Set(options.pinned ?? []);
+    const nodes: Node[] = regions.map(region => ({
+        x: finite(region.location_x),
+        y: finite(region.location_y),
+        altitude: finite(region.altitude),
+        radius: regionRadius[region.size] ?? regionRadius.medium,
+        pinned: pinned.has(region.region_name)
+    }));
+
+    const links = islandLinks(data);
+    separateCoincident(nodes);
+    const iterations = options.iterations ?? 400;
+    for (let i = 0; i < iterations; i++) {
+        for (const link of links) {
+            relaxLink(nodes[link.from], nodes[link.to], link.route.direction);
+        }
+        for (let a = 0; a < nodes.length; a++) {
+            for (let b = a + 1; b < nodes.length; b++) {
+                separate(nodes[a], nodes[b]);
+            }
+        }
+    }
+    for (let i = 0; i < iterations; i++) {
+        for (const link of links) {
+            relaxAltitude(nodes[link.from], nodes[link.to], link.route.direction);
+        }
+    }
+
+    const moved: string[] = [];
+    regions.forEach((region, i) => {
+        const node = nodes[i];
+        if (node.pinned) return;
+        const x = Math.round(node.x), y = Math.round(node.y), altitude = Math.round(node.altitude);
+        if (x !== region.location_x || y !== region.location_y || altitude !== region.altitude) {
+            region.location_x = x;
+            region.location_y = y;
+            region.altitude = altitude;
+            moved.push(region.region_name);
+        }
+    });
+
+    return { data, moved, unsatisfied: findLayoutProblems(data, pinned) };
+}
+
+/**
+ * The regions a set of designer locks pins in place: those whose coordinates or altitude are locked,
+ * directly or by locking the whole region (or every region).
+ */
+export function pinnedRegions(island: Island, pointers: string[]): string[] {
+    const fields = new Set(["location_x", "location_y", "altitude"]);
+    const pinned = new Set<string>();
+    for (const pointer of pointers) {
+        let tokens: string[];
+        try {
+            tokens = parsePointer(pointer);
+        } catch {
+            continue;
+        }
+        if (tokens[0] !== "regions") continue;
+        if (tokens.length === 1) return (island.regions ?? []).map(r => r.region_name);
+        const region = island.regions?.[Number(tokens[1])];
+        if (region && (tokens.length === 2 || (tokens.length === 3 && fields.has(tokens[2])))) {
+            pinned.add(region.region_name);
+        }
+    }
+    return [...pinned];
+}
+
+/**
+ * The regions a modification left where they were: regions the previous island already had, at the same
+ * coordinates and altitude. Pinning them when laying out the modified island moves only new and moved regions.
+ */
+export function unmovedRegions(previous: Island, island: Island): string[] {
+    const before = new Map((previous.regions ?? []).map(r => [r.region_name, r]));
+    return (island.regions ?? []).filter(region => {
+        const was = before.get(region.region_name);
+        return was !== undefined && was.location_x === region.location_x && was.location_y === region.location_y && was.altitude === region.altitude;
+    }).map(region => region.region_name);
+}
+
+/**
+ * Checks an island's layout as it stands. Returns a list of human (and LLM) readable problems. Empty means valid.
+ */
+export function findLayoutProblems(island: Island, pinned = new Set<string>()): string[] {
+    const problems: string[] = [];
+    const regions = island.regions ?? [];
+    const nodes = regions.map(r => ({ x: finite(r.location_x), y: finite(r.location_y), radius: regionRadius[r.size] ?? regionRadius.medium }));
+    const named = (i: number) => `"${regions[i].region_name}"${pinned.has(regions[i].region_name) ? " (pinned)" : ""}`;
+
+    for (let a = 0; a < nodes.length; a++) {
+        for (let b = a + 1; b < nodes.length; b++) {
+            const distance = Math.hypot(nodes[b].x - nodes[a].x, nodes[b].y - nodes[a].y);
+            const needed = nodes[a].radius + nodes[b].radius;
+            if (distance < needed - 1) {
+                problems.push(`Regions ${named(a)} and ${named(b)} overlap: they are ${Math.round(distance)}m apart, but their sizes need ${needed}m. ` +
+                    `Make one of them smaller or move them apart.`);
+            }
+        }
+    }
+
+    for (const { path, from, to, route } of islandLinks(island)) {
+        const a = regions[from], b = regions[to];
+        const direction = route.direction;
+        if (direction === "up" || direction === "down") {
+            const climb = finite(b.altitude) - finite(a.altitude);
+            if (direction === "up" ? climb <= 0 : climb >= 0) {
+                problems.push(`${path} leads ${direction} from ${named(from)} at ${a.altitude}m to ${named(to)} at ${b.altitude}m, ` +
+                    `but ${b.region_name} is ${climb === 0 ? "at the same altitude" : direction === "up" ? "lower" : "higher"}. ` +
+                    `Change the route's direction or the regions' altitudes.`);
+            }
+        } else if (direction !== undefined && compass[direction]) {
+            const [dx, dy] = compass[direction];
+            const ox = nodes[to].x - nodes[from].x, oy = nodes[to].y - nodes[from].y;
+            const along = ox * dx + oy * dy;
+            const across = Math.abs(ox * dy - oy * dx);
+            if (along <= 0 || across > along * CONE + 1) {
+                problems.push(`${path} leads ${direction} from ${named(from)} to ${named(to)}, but ${b.region_name} ${bearing(ox, oy)} ${a.region_name}. ` +
+                    `Change the route's direction, or check for routes between the same regions that point different ways.`);
+            }
+        }
+    }
+    return problems;
+}
+
+// ===== 🔷 Relaxation =====
+
+/** Regions at exactly the same spot have no direction to be pushed apart in; spread them around a little */
+function separateCoincident(nodes: Node[]) {
+    const seen = new Set<string>();
+    nodes.forEach((node, i) => {
+        const key = `${node.x},${node.y}`;
+        if (seen.has(key) && !node.pinned) {
+            const angle = i * 2.399963;     // golden angle, so repeated spots don't line up
+            node.x += Math.cos(angle) * node.radius;
+            node.y += Math.sin(angle) * node.radius;
+        }
+        seen.add(`${node.x},${node.y}`);
+    });
+}
+
+/** Moves both ends of a route toward satisfying its direction and length, pinned ends staying put */
+function relaxLink(a: Node, b: Node, direction: Route["direction"]) {
+    const touching = a.radius + b.radius + GAP;
+    const ox = b.x - a.x, oy = b.y - a.y;
+    let cx = 0, cy = 0;                 // how far b should move relative to a
+
+    const heading = direction !== undefined ? compass[direction] : undefined;
+    if (heading) {
+        const [dx, dy] = heading;
+        const along = ox * dx + oy * dy;
+        const across = ox * dy - oy * dx;
+        // far enough that way, but not more than walking distance
+        if (along < touching) {
+            cx += (touching - along) * dx;
+            cy += (touching - along) * dy;
+        } else if (along > touching * MAX_LINK) {
+            cx += (touching * MAX_LINK - along) * dx;
+            cy += (touching * MAX_LINK - along) * dy;
+        }
+        // and not too far off to the side
+        const drift = Math.max(along, touching) * CONE * 0.8;
+        if (Math.abs(across) > drift) {
+            const excess = Math.abs(across) - drift;
+            cx -= Math.sign(across) * excess * dy;
+            cy += Math.sign(across) * excess * dx;
+        }
+    } else {
+        const distance = Math.hypot(ox, oy);
+        if (distance > touching * MAX_LINK) {
+            const excess = distance - touching * MAX_LINK;
+            cx -= ox / distance * excess;
+            cy -= oy / distance * excess;
+        }
+    }
+    share(a, b, cx, cy);
+}
+
+/** Pushes two overlapping regions apart */
+function separate(a: Node, b: Node) {
+    const needed = a.radius + b.radius + GAP;
+    const ox = b.x - a.x, oy = b.y - a.y;
+    const distance = Math.hypot(ox, oy);
+    if (distance >= needed) return;
+    if (distance === 0) {
+        share(a, b, needed, 0);
+        return;
+    }
+    share(a, b, ox / distance * (needed - distance), oy / distance * (needed - distance));
+}
+
+/** Moves b by (cx, cy) relative to a, splitting the move between whichever of them aren't pinned */
+function share(a: Node, b: Node, cx: number, cy: number) {
+    if (cx === 0 && cy === 0) return;
+    const aShare = a.pinned ? 0 : b.pinned ? 1 : 0.5;
+    const bShare = b.pinned ? 0 : 1 - aShare;
+    a.x -= cx * aShare;
+    a.y -= cy * aShare;
+    b.x += cx * bShare;
+    b.y += cy * bShare;
+}
+
+/** Raises or lowers the ends of an up or down route until it climbs or descends; nothing goes below sea level */
+function relaxAltitude(a: Node, b: Node, direction: Route["direction"]) {
+    if (direction !== "up" && direction !== "down") return;
+    const climb = b.altitude - a.altitude;
+    const shortfall = direction === "up" ? CLIMB - climb : climb + CLIMB;
+    if (shortfall <= 0) return;
+    const sign = direction === "up" ? 1 : -1;
+    const aShare = a.pinned ? 0 : b.pinned ? 1 : 0.5;
+    const bShare = b.pinned ? 0 : 1 - aShare;
+    a.altitude = Math.max(0, a.altitude - sign * shortfall * aShare);
+    b.altitude = Math.max(0, b.altitude + sign * shortfall * bShare);
+}
+
+// ===== 🔷 Helpers =====
+
+function islandLinks(island: Island): Link[] {
+    const indexOf = new Map((island.regions ?? []).map((r, i) => [r.region_name, i]));
+    const links: Link[] = [];
+    for (const { path, from, route } of collectRoutes(island)) {
+        const a = from !== undefined ? indexOf.get(from) : undefined;
+        const b = indexOf.get(route.destination_name);
+        if (a !== undefined && b !== undefined && a !== b) links.push({ path, from: a, to: b, route });
+    }
+    return links;
+}
+
+/** Where an offset points, as the compass point nearest it: "lies south-east of" */
+function bearing(x: number, y: number): string {
+    if (x === 0 && y === 0) return "is at the same spot as";
+    const points = ["east", "north-east", "north", "north-west", "west", "south-west", "south", "south-east"];
+    const octant = Math.round(Math.atan2(y, x) / (Math.PI / 4));
+    return `lies ${points[(octant + 8) % 8]} of`;
+}
+
+function finite(n: number): number {
+    return Number.isFinite(n) ? n : 0;
+}
@@ -0,0 +1,254 @@
+import { SchemaModel, SchemaType } from "./schema_model";
+import { IslandSkeleton } from "./skeleton_schema";
+import { collectRoutes, geoFeatures } from "./island_validator";
+
+// Deterministic local repair, run before asking the model to repair anything.
+// A lot of validation failures are trivial: "Forest" for "forest", "Large" for "large", "12" for 12,
+// a null where an optional array should just be missing. Each of those used to cost a full repair round trip.
+// This walks the document against the schema types and fixes what it can with no model call:
+//  - enum values: case, separators ("extra-large", "Coastal_Scrub") and small typos, when there's one clear match
+//  - coercions: numeric strings to numbers, "true"/"false" to booleans, numbers to strings, a lone object to a one-element array
+//  - defaults: missing required arrays become [], a missing property that can only be one value (a fauna's kind,
+//    the island's schema_version) gets it, nulls on optional properties are removed
+//  - unknown properties are removed (the schema validator rejects them)
+//  - (islands) route destinations that are near misses for a region name, or for a geo feature in it
+// Anything it can't fix confidently is left for the LLM repair.
+
+export type LocalRepairResult<T> = {
+    data: T;
+    fixes: string[];            // one human readable line per fix, e.g. `regions[0].biome: "Forest" -> "forest"`
+};
+
+/**
+ * Returns a function that locally repairs documents of the given type.
+ * The input is never modified; the result is a repaired copy.
+ * @param model The structural model of the schema.
+ * @param typeName The type of the documents to repair, e.g. "Island".
+ */
+export function createLocalRepair<T extends object>(model: SchemaModel, typeName: string): (json: object) => LocalRepairResult<T> {
+    return (json: object) => {
+        const fixes: string[] = [];
+        const data = repairValue(structuredClone(json), { kind: "reference", name: typeName, text: typeName }, "", fixes);
+        return { data: data as T, fixes };
+    };
+
+    function repairValue(value: unknown, type: SchemaType, path: string, fixes: string[]): unknown {
+        const resolved = model.resolve(type);
+        const where = path || "(root)";
+
+        const allowed = model.literalValues(resolved);
+        if (allowed) {
+            if (allowed.includes(value as string)) return value;
+            const match = typeof value === "string" ? closestLiteral(value, allowed.filter((v): v is string => typeof v === "string")) : undefined;
+            if (match !== undefined) {
+                fixes.push(`${where}: ${JSON.stringify(value)} -> ${JSON.stringify(match)}`);
+                return match;
+            }
+            return value;
+        }
+
+        switch (resolved.kind) {
+            case "primitive":
+                return coercePrimitive(value, resolved.name, where, fixes);
+
+            case "array": {
+                let items = value;
+                if (!Array.isArray(items)) {
+                    if (items !== null && typeof items === "object") {
+                        fixes.push(`${where}: wrapped single object in an array`);
+                        items = [items];
+                    } else {
+                        return value;
+                    }
+                }
+                // every fix is reported at the item's index in the array as it was, before any nulls are dropped
+                return (items as unknown[]).flatMap((item, i) => {
+                    if (item === null) {
+                        fixes.push(`${path}[${i}]: removed null item`);
+                        return [];
+                    }
+                    return [repairValue(item, resolved.element, `${path}[${i}]`, fixes)];
+                });
+            }
+
+            case "object":
+                return repairObject(value, resolved, path, fixes);
+
+            case "union": {
+                // pick the object option the value fits best, e.g. Human vs Monster vs Animal for Fauna
+                if (value === null || typeof value !== "object" || Array.isArray(value)) return value;
+                const best = bestObjectOption(value as Record<string, unknown>, resolved.options);
+                return best ? repairObject(value, best, path, fixes) : value;
+            }
+
+            default:
+                return value;
+        }
+    }
+
+    function repairObject(value: unknown, type: SchemaType, path: string, fixes: string[]): unknown {
+        if (value === null || typeof value !== "object" || Array.isArray(value)) return value;
+        const obj = value as Record<string, unknown>;
+        const properties = model.propertiesOf(type);
+        const prefix = path ? `${path}.` : "";
+
+        for (const key of Object.keys(obj)) {
+            if (!(key in properties)) {
+                fixes.push(`${prefix}${key}: removed unknown property`);
+                delete obj[key];
+            }
+        }
+        for (const [key, property] of Object.entries(properties)) {
+            const current = obj[key];
+            const isArray = model.resolve(property.type).kind === "array";
+            const only = model.literalValues(property.type);
+            if (current === undefined || current === null) {
+                if (isArray && !property.optional) {
+                    fixes.push(`${prefix}${key}: missing, defaulted to []`);
+                    obj[key] = [];
+                } else if (only?.length === 1 && !property.optional) {
+                    fixes.push(`${prefix}${key}: missing, set to ${JSON.stringify(only[0])}`);
+                    obj[key] = only[0];
+                } else if (current === null && property.optional) {
+                    fixes.push(`${prefix}${key}: removed null`);
+                    delete obj[key];
+                }
+                continue;
+            }
+            obj[key] = repairValue(current, property.type, `${prefix}${key}`, fixes);
+        }
+        return obj;
+    }
+
+    /** The object option sharing the most properties with the value, preferring fewer missing required ones */
+    function bestObjectOption(value: Record<string, unknown>, options: SchemaType[]): SchemaType | undefined {
+        let best: SchemaType | undefined;
+        let bestScore = -Infinity;
+        for (const option of options) {
+            const properties = model.propertiesOf(option);
+            const names = Object.keys(properties);
+            if (names.length === 0) continue;
+            const shared = names.filter(n => n in value).length;
+            const missing = names.filter(n => !properties[n].optional && !(n in value)).length;
+            const unknown = Object.keys(value).filter(k => !(k in properties)).length;
+            // a literal property that matches exactly (e.g. species) is strong evidence
+            const literalHits = names.filter(n => {
+                const allowed = model.literalValues(properties[n].type);
+                return allowed !== undefined && allowed.length > 1 && allowed.includes(value[n] as string);
+            }).length;
+            // a tag that can only be one value (kind: "monster") decides it outright
+            const tagHits = names.filter(n => {
+                const allowed = model.literalValues(properties[n].type);
+                return allowed !== undefined && allowed.length === 1 && allowed[0] === value[n];
+            }).length;
+            const score = shared + 2 * literalHits + 10 * tagHits - missing - unknown;
+            if (score > bestScore) {
+                best = option;
+                bestScore = score;
+            }
+        }
+        return best;
+    }
+}
+
+function coercePrimitive(value: unknown, name: string, where: string, fixes: string[]): unknown {
+    if (name === "number" && typeof value === "string") {
+        const cleaned = value.trim().replace(/,/g, "");
+        if (cleaned !== "" && Number.isFinite(Number(cleaned))) {
+            fixes.push(`${where}: ${JSON.stringify(value)} -> ${Number(cleaned)}`);
+            return Number(cleaned);
+        }
+    }
+    if (name === "boolean" && typeof value === "string") {
+        const lowered = value.trim().toLowerCase();
+        if (lowered === "true" || lowered === "false") {
+            fixes.push(`${where}: ${JSON.stringify(value)} -> ${lowered}`);
+            return lowered === "true";
+        }
+    }
+    if (name === "string" && (typeof value === "number" || typeof value === "boolean")) {
+        fixes.push(`${where}: ${JSON.stringify(value)} -> ${JSON.stringify(String(value))}`);
+        return String(value);
+    }
+    return value;
+}
+
+/**
+ * Finds the allowed literal a near-miss string was meant to be. Normalizes case and separators first,
+ * then allows a small edit distance, but only when exactly one candidate is that close.
+ */
+export function closestLiteral(value: string, allowed: string[]): string | undefined {
+    const normalize = (s: string) => s.trim().toLowerCase().replace(/[-_\s]+/g, " ");
+    const target = normalize(value);
+    const exact = allowed.filter(a => normalize(a) === target);
+    if (exact.length === 1) return exact[0];
+
+    const limit = Math.max(1, Math.floor(target.length / 4));
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    let ties = 0;
+    for (const candidate of allowed) {
+        const distance = editDistance(target, normalize(candidate));
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+            ties = 0;
+        } else if (distance === bestDistance) {
+            ties++;
+        }
+    }
+    return bestDistance <= limit && ties === 0 ? best : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+}
+
+/**
+ * Points near-miss route destinations ("ash beach ", "Ash Beech") at the region they were meant to name,
+ * and near-miss destination features at a feature in that region.
+ * Modifies the island in place and returns the fixes.
+ */
+export function repairRouteDestinations(island: IslandSkeleton): string[] {
+    const fixes: string[] = [];
+    const regions = island.regions ?? [];
+    const names = regions.map(r => r.region_name).filter(n => typeof n === "string");
+    for (const { path, route } of collectRoutes(island)) {
+        if (typeof route.destination_name !== "string") continue;
+        if (!names.includes(route.destination_name)) {
+            const match = closestLiteral(route.destination_name, names);
+            if (match === undefined) continue;
+            fixes.push(`${path}.destination_name: ${JSON.stringify(route.destination_name)} -> ${JSON.stringify(match)}`);
+            route.destination_name = match;
+        }
+        const destination = regions.find(r => r.region_name === route.destination_name);
+        const features = destination ? geoFeatures(destination).map(f => f.feature_name).filter(n => typeof n === "string") : [];
+        if (typeof route.destination_feature !== "string" || features.includes(route.destination_feature)) continue;
+        const feature = closestLiteral(route.destination_feature, features);
+        if (feature !== undefined) {
+            fixes.push(`${path}.destination_feature: ${JSON.stringify(route.destination_feature)} -> ${JSON.stringify(feature)}`);
+            route.destination_feature = feature;
+        }
+    }
+    return fixes;
+}
+
+/**
+ * Adds the island-level fix for near-miss route destinations to a schema-driven local repair.
+ */
+export function withRouteRepair<T extends IslandSkeleton>(repair: (json: object) => LocalRepairResult<T>): (json: object) => LocalRepairResult<T> {
+    return (json: object) => {
+        const { data, fixes } = repair(json);
+        return { data, fixes: [...fixes, ...repairRouteDestinations(data)] };
+    };
+}
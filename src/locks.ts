@@ -0,0 +1,146 @@
+import { applyPatch, deepEqual, formatPointer, getAtPointer, parsePointer, JsonPatchOperation } from "./json_patch";
+
+// Field and region locking.
+// Designers lock parts of an island they've hand-tuned, as JSON pointers ("/regions/2", "/regions/0/buildings/1/story",
+// "/starting_routes"). The model is told about the locks, but it can't be trusted to honor them, so after every
+// model response we diff the locked locations against the previous island and put back anything that changed.
+// The array indices in a lock are where things were in the previous island. The model may add or remove regions
+// (or buildings...) before a locked one, so a named element is followed by its name to wherever it is now.
+
+/**
+ * Checks that the locks are an array of well-formed JSON pointers. They usually come straight from a request,
+ * so anything is checked. Returns an error message, or undefined if all are valid.
+ */
+export function checkLockPointers(pointers: unknown): string | undefined {
+    if (!Array.isArray(pointers)) return `Locks must be an array of JSON pointers, not ${JSON.stringify(pointers)}.`;
+    for (const pointer of pointers) {
+        if (typeof pointer !== "string") return `Lock ${JSON.stringify(pointer)} is not a JSON pointer string.`;
+        try {
+            if (parsePointer(pointer).length === 0) return `Lock "${pointer}" would lock the whole island.`;
+        } catch (e: any) {
+            return `Invalid lock: ${e.message}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Prompt text telling the model which locations it must leave alone, along with their current values.
+ */
+export function describeLocks(previous: object, pointers: string[]): string {
+    const lines = pointers.map(p => `- ${p}: ${JSON.stringify(getAtPointer(previous, p)) ?? "(absent)"}`);
+    return `The following parts of the JSON object are locked by the designer. They must appear in your output exactly as they are now, ` +
+        `unchanged, at the same JSON pointer locations:\n${lines.join("\n")}\n`;
+}
+
+/**
+ * Returns the locks whose value in `next` differs from `previous`, or that can't be found in `next` at all.
+ */
+export function findLockViolations(previous: object, next: object, pointers: string[]): string[] {
+    return pointers.filter(p => {
+        const at = locate(previous, next, p);
+        return at === undefined || !deepEqual(getAtPointer(previous, p), getAtPointer(next, at));
+    });
+}
+
+/**
+ * An error message for the repair prompt, describing each violated lock and the value it must have.
+ */
+export function describeLockViolations(previous: object, violations: string[]): string {
+    return violations.map(p =>
+        `Locked location ${p} was changed. It must be exactly ${JSON.stringify(getAtPointer(previous, p)) ?? "absent"}.`).join("\n");
+}
+
+/**
+ * Puts the previous value back at every violated lock, wherever the locked element is now. Locks are restored
+ * outermost first, so a locked region and a locked field inside it don't fight. A locked element the model
+ * removed is added back at the end of its array. A location whose parent no longer exists, or an unnamed
+ * element whose array changed length, can't be restored and is reported in `unrestorable`.
+ * @returns The repaired document and the locks that had to be restored.
+ */
+export function restoreLocks<T extends object>(previous: T, next: T, pointers: string[]): { data: T; restored: string[]; unrestorable: string[] } {
+    const violations = findLockViolations(previous, next, pointers)
+        .sort((a, b) => parsePointer(a).length - parsePointer(b).length);
+    let data = next;
+    const restored: string[] = [];
+    const unrestorable: string[] = [];
+
+    for (const pointer of violations) {
+        const at = locate(previous, data, pointer);
+        if (at === undefined) {
+            unrestorable.push(pointer);
+            continue;
+        }
+        const before = getAtPointer(previous, pointer);
+        const now = getAtPointer(data, at);
+        // an outer lock may already have put this one back
+        if (deepEqual(before, now)) {
+            restored.push(pointer);
+            continue;
+        }
+        const op: JsonPatchOperation = before === undefined
+            ? { op: "remove", path: at }
+            : { op: now === undefined ? "add" : "replace", path: at, value: before };
+        const result = applyPatch(data, [op]);
+        if (result.success) {
+            data = result.data;
+            restored.push(pointer);
+        } else {
+            unrestorable.push(pointer);
+        }
+    }
+    return { data, restored, unrestorable };
+}
+
+// ===== 🔷 Following locked elements =====
+
+/** The fields that name an array element, in the order they're looked for */
+const nameFields = ["region_name", "building_name", "feature_name", "quest_name", "human_name", "name"];
+
+/**
+ * Where a lock's location is in `next`: the lock's pointer with each array index moved to where that element
+ * is now. A named element that's gone gets the index past the end of its array, where it can be added back.
+ * Returns undefined when an unnamed element can't be told apart from its neighbours any more.
+ */
+function locate(previous: object, next: object, pointer: string): string | undefined {
+    const tokens = parsePointer(pointer);
+    const located: string[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const before = getAtPointer(previous, formatPointer(tokens.slice(0, i)));
+        const now = getAtPointer(next, formatPointer(located));
+        const token = tokens[i];
+        if (!Array.isArray(before) || !Array.isArray(now) || !/^\d+$/.test(token)) {
+            located.push(token);
+            continue;
+        }
+        const index = locateElement(before, now, Number(token));
+        if (index === undefined) return undefined;
+        located.push(String(index));
+    }
+    return formatPointer(located);
+}
+
+/** Where `before[index]` is in `now`, by name if it has one */
+function locateElement(before: unknown[], now: unknown[], index: number): number | undefined {
+    const element = before[index];
+    if (element === undefined || deepEqual(element, now[index])) return index;
+    const name = elementName(element);
+    if (name === undefined) {
+        // nothing to follow it by; its index only still means it if nothing was added or removed
+        return before.length === now.length ? index : undefined;
+    }
+    const moved = now.findIndex(e => deepEqual(elementName(e), name));
+    if (moved >= 0) return moved;
+    // renamed in place: whatever is at its index now has a name the previous array didn't have
+    const there = elementName(now[index]);
+    if (there !== undefined && before.length === now.length && !before.some(e => deepEqual(elementName(e), there))) return index;
+    return now.length;
+}
+
+/** The name field and value an element is known by, e.g. ["region_name", "Ash Beach"] */
+function elementName(element: unknown): [string, string] | undefined {
+    if (element === null || typeof element !== "object") return undefined;
+    const record = element as Record<string, unknown>;
+    const field = nameFields.find(f => typeof record[f] === "string");
+    return field !== undefined ? [field, record[field] as string] : undefined;
+}
@@ -0,0 +1,63 @@
+// Structured logging: one JSON object per line, so logs can be filtered and joined by job id, prompt or stage.
+//  {"time":"2025-01-01T12:00:00.000Z","level":"info","msg":"Job finished","job_id":12,"kind":"prompt","outcome":"result"}
+// A child logger adds its fields (a job's id, say) to every line it writes.
+// Lines below the configured level (MYTHOS_LOG_LEVEL on the server, default info) are dropped.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(msg: string, fields?: LogFields): void;
+    info(msg: string, fields?: LogFields): void;
+    warn(msg: string, fields?: LogFields): void;
+    error(msg: string, fields?: LogFields): void;
+
+    /** A logger that adds `fields` to every line */
+    child(fields: LogFields): Logger;
+}
+
+export type LoggerOptions = {
+    level?: LogLevel;                   // the least severe level written; default info
+    fields?: LogFields;                 // added to every line
+    write?: (line: string) => void;     // default: stdout, or stderr for warnings and errors
+};
+
+const severity: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export function isLogLevel(level: unknown): level is LogLevel {
+    return typeof level === "string" && level in severity;
+}
+
+/**
+ * Creates a logger.
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+    const threshold = severity[options.level ?? "info"];
+    const write = options.write;
+    return make(options.fields ?? {});
+
+    function make(base: LogFields): Logger {
+        const log = (level: LogLevel) => (msg: string, fields?: LogFields) => {
+            if (severity[level] < threshold) return;
+            const line = JSON.stringify({ time: new Date().toISOString(), level, msg, ...base, ...fields }, replacer);
+            if (write) {
+                write(line);
+            } else {
+                (severity[level] >= severity.warn ? process.stderr : process.stdout).write(line + "\n");
+            }
+        };
+        return {
+            debug: log("debug"),
+            info: log("info"),
+            warn: log("warn"),
+            error: log("error"),
+            child: fields => make({ ...base, ...fields })
+        };
+    }
+}
+
+/** Errors don't serialize on their own; keep their message */
+function replacer(_key: string, value: unknown): unknown {
+    return value instanceof Error ? { name: value.name, message: value.message } : value;
+}
@@ -0,0 +1,180 @@
+// Metrics in the Prometheus text exposition format, without a client library.
+// Three kinds, each with optional labels:
+//  - counters only go up (requests, tokens, repairs); Prometheus turns them into rates
+//  - gauges go up and down, or are read from the application when scraped (open sockets, queued jobs)
+//  - histograms count observations into cumulative buckets, plus their sum and count (stage latency)
+// A registry holds them all and renders them for a /metrics route.
+
+export type Labels = Record<string, string>;
+
+export interface Counter {
+    inc(labels?: Labels, by?: number): void;
+}
+
+export interface Gauge {
+    set(value: number, labels?: Labels): void;
+    inc(labels?: Labels, by?: number): void;
+    dec(labels?: Labels, by?: number): void;
+}
+
+export interface Histogram {
+    observe(value: number, labels?: Labels): void;
+}
+
+export interface MetricsRegistry {
+    counter(name: string, help: string): Counter;
+
+    /**
+     * A gauge. With `collect`, its value is read when the metrics are rendered instead of being set:
+     * a number, or one value per set of labels.
+     */
+    gauge(name: string, help: string, collect?: () => number | [Labels, number][]): Gauge;
+
+    /**
+     * A histogram with the given bucket upper bounds, in increasing order; +Inf is added automatically.
+     */
+    histogram(name: string, help: string, buckets?: number[]): Histogram;
+
+    /** Every metric, in the text exposition format */
+    render(): string;
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/** Bucket bounds for durations in seconds, from a fast local check to a long hierarchical job */
+export const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 900];
+
+type Metric = {
+    name: string;
+    help: string;
+    type: "counter" | "gauge" | "histogram";
+    render(): string[];             // sample lines
+};
+
+type HistogramSeries = {
+    labels: Labels;
+    buckets: number[];              // per bucket, not yet cumulative
+    sum: number;
+    count: number;
+};
+
+/**
+ * Creates an empty metrics registry.
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+    const metrics = new Map<string, Metric>();
+
+    return {
+        counter,
+        gauge,
+        histogram,
+        render
+    };
+
+    function counter(name: string, help: string): Counter {
+        const values = new Map<string, { labels: Labels; value: number }>();
+        register({ name, help, type: "counter", render: () => renderValues(name, values) });
+        return {
+            inc(labels = {}, by = 1) {
+                if (by < 0) throw new Error(`Counter ${name} can't go down.`);
+                add(values, labels, by);
+            }
+        };
+    }
+
+    function gauge(name: string, help: string, collect?: () => number | [Labels, number][]): Gauge {
+        const values = new Map<string, { labels: Labels; value: number }>();
+        register({
+            name, help, type: "gauge",
+            render: () => {
+                if (!collect) return renderValues(name, values);
+                const collected = collect();
+                const series: [Labels, number][] = typeof collected === "number" ? [[{}, collected]] : collected;
+                return series.map(([labels, value]) => sample(name, labels, value));
+            }
+        });
+        return {
+            set: (value, labels = {}) => { values.set(labelKey(labels), { labels, value }); },
+            inc: (labels = {}, by = 1) => add(values, labels, by),
+            dec: (labels = {}, by = 1) => add(values, labels, -by)
+        };
+    }
+
+    function histogram(name: string, help: string, buckets = DURATION_BUCKETS): Histogram {
+        const bounds = [...buckets].sort((a, b) => a - b);
+        const series = new Map<string, HistogramSeries>();
+        register({
+            name, help, type: "histogram",
+            render: () => [...series.values()].flatMap(s => {
+                let cumulative = 0;
+                const lines = bounds.map((bound, i) => {
+                    cumulative += s.buckets[i];
+                    return sample(`${name}_bucket`, { ...s.labels, le: formatNumber(bound) }, cumulative);
+                });
+                lines.push(sample(`${name}_bucket`, { ...s.labels, le: "+Inf" }, s.count));
+                lines.push(sample(`${name}_sum`, s.labels, s.sum));
+                lines.push(sample(`${name}_count`, s.labels, s.count));
+                return lines;
+            })
+        });
+        return {
+            observe(value, labels = {}) {
+                const key = labelKey(labels);
+                let s = series.get(key);
+                if (!s) {
+                    s = { labels, buckets: bounds.map(() => 0), sum: 0, count: 0 };
+                    series.set(key, s);
+                }
+                const bucket = bounds.findIndex(bound => value <= bound);
+                if (bucket >= 0) s.buckets[bucket]++;
+                s.sum += value;
+                s.count++;
+            }
+        };
+    }
+
+    function render(): string {
+        const lines: string[] = [];
+        for (const metric of metrics.values()) {
+            lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+            lines.push(`# TYPE ${metric.name} ${metric.type}`);
+            lines.push(...metric.render());
+        }
+        return lines.join("\n") + "\n";
+    }
+
+    function register(metric: Metric) {
+        if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(metric.name)) throw new Error(`Invalid metric name "${metric.name}".`);
+        if (metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered.`);
+        metrics.set(metric.name, metric);
+    }
+}
+
+// ===== 🔷 Helpers =====
+
+function add(values: Map<string, { labels: Labels; value: number }>, labels: Labels, by: number) {
+    const key = labelKey(labels);
+    const current = values.get(key);
+    values.set(key, { labels, value: (current?.value ?? 0) + by });
+}
+
+function renderValues(name: string, values: Map<string, { labels: Labels; value: number }>): string[] {
+    return [...values.values()].map(({ labels, value }) => sample(name, labels, value));
+}
+
+/** One sample line: name{label="value",...} value */
+function sample(name: string, labels: Labels, value: number): string {
+    const pairs = Object.entries(labels).map(([k, v]) => `${k}="${v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`);
+    return `${name}${pairs.length > 0 ? `{${pairs.join(",")}}` : ""} ${formatNumber(value)}`;
+}
+
+/** The same labels in any order are the same series */
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0));
+}
+
+function formatNumber(n: number): string {
+    if (Number.isNaN(n)) return "NaN";
+    if (!Number.isFinite(n)) return n > 0 ? "+Inf" : "-Inf";
+    return String(n);
+}
@@ -0,0 +1,137 @@
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+import { Island } from "./io_schema";
+
+// Schema migrations for saved islands.
+// Every island carries the schema_version it was written for; islands from before there was one are version 1.
+// When the schema changes in a way old islands won't validate against, the version goes up by one and a
+// migration is added here that upgrades an island from the version before. Islands are upgraded one step at
+// a time, so a very old island goes through every migration in turn.
+//
+// Migrations work on plain JSON, not on Island: they have to cope with what was saved, and keep working after
+// later schema changes. So each one writes down what it needs to know about its own version (like the species
+// lists below) instead of importing it.
+//
+//  1 -> 2  every fauna is tagged with its kind ("human", "monster", "animal", "sea_animal"), inferred
+//          from its human_name or species
+
+/** The schema version of io_schema.ts; an island's schema_version must be this to validate */
+export const SCHEMA_VERSION: Island["schema_version"] = 2;
+
+export type MigrationResult = {
+    island: Island;
+    from: number;                   // the version the island was at
+    to: number;                     // the version it is at now, SCHEMA_VERSION
+    changes: string[];              // one line per change, e.g. `regions[0].fauna[2].kind: "monster"`
+    unresolved: string[];           // what couldn't be migrated, left for validation and repair to deal with
+};
+
+/** An island as plain JSON, before it's known to match any schema */
+type JsonObject = Record<string, unknown>;
+
+type Migration = {
+    from: number;                   // upgrades from this version to the next
+    migrate(island: JsonObject, changes: string[], unresolved: string[]): void;
+};
+
+const migrations: Migration[] = [
+    { from: 1, migrate: tagFaunaKinds }
+];
+
+/**
+ * The schema version an island was written for: its schema_version, or 1 if it predates them.
+ */
+export function schemaVersionOf(json: object): number {
+    const version = (json as { schema_version?: unknown }).schema_version;
+    return version === undefined ? 1 : typeof version === "number" && Number.isInteger(version) && version > 0 ? version : NaN;
+}
+
+/**
+ * Upgrades an island to the current schema version. The input is never modified; the result is an upgraded
+ * copy, or the island itself if it's already current. Fails if the island is from a newer schema than this one,
+ * or its schema_version isn't a version at all.
+ */
+export function migrateIsland(json: object): Result<MigrationResult> {
+    if (json === null || typeof json !== "object" || Array.isArray(json)) {
+        return error("An island is a JSON object.");
+    }
+    const from = schemaVersionOf(json);
+    if (Number.isNaN(from)) {
+        return error(`schema_version ${JSON.stringify((json as { schema_version?: unknown }).schema_version)} is not a version number.`);
+    }
+    if (from > SCHEMA_VERSION) {
+        return error(`The island is from schema version ${from}, newer than this mythographer's ${SCHEMA_VERSION}.`);
+    }
+    if (from === SCHEMA_VERSION) {
+        return success({ island: json as Island, from, to: from, changes: [], unresolved: [] });
+    }
+
+    const island = structuredClone(json) as JsonObject;
+    const changes: string[] = [];
+    const unresolved: string[] = [];
+    for (let version = from; version < SCHEMA_VERSION; version++) {
+        const migration = migrations.find(m => m.from === version);
+        if (!migration) return error(`There is no migration from schema version ${version}.`);
+        migration.migrate(island, changes, unresolved);
+    }
+    // schema_version goes first, where the schema declares it
+    const { schema_version, ...rest } = island;
+    changes.push(`schema_version: ${schema_version ?? from} -> ${SCHEMA_VERSION}`);
+    return success({ island: { schema_version: SCHEMA_VERSION, ...rest } as Island, from, to: SCHEMA_VERSION, changes, unresolved });
+}
+
+// ===== 🔷 1 -> 2: fauna kinds =====
+
+const monsterSpecies = ["wirulf", "Decimator", "Ecomental", "goblin", "orc", "troll", "dragon", "wyvern", "giant", "beast", "undead", "elemental", "demon", "angel", "monster", "creature", "boss"];
+const animalSpecies = ["wolf", "crow", "deer", "rabbit", "fox", "bear", "owl", "eagle", "hawk", "sparrow", "seagull", "pigeon", "panther", "lynx"];
+const seaAnimalSpecies = ["whale", "dolphin", "seal", "squid", "octopus", "jellyfish", "starfish", "crab", "lobster", "eel"];
+
+/** Tags every fauna in regions, buildings and geo features with the kind its fields say it is */
+function tagFaunaKinds(island: JsonObject, changes: string[], unresolved: string[]) {
+    const tagAll = (fauna: unknown, path: string) => {
+        if (!Array.isArray(fauna)) return;
+        fauna.forEach((item: unknown, f) => {
+            const being = asObject(item);
+            if (!being || being.kind !== undefined) return;
+            const kind = faunaKind(being);
+            if (kind === undefined) {
+                unresolved.push(`${path}[${f}]: can't tell what kind of being it is; it has no human_name and ` +
+                    (being.species === undefined ? "no species." : `an unknown species ${JSON.stringify(being.species)}.`));
+                return;
+            }
+            being.kind = kind;
+            changes.push(`${path}[${f}].kind: ${JSON.stringify(kind)}`);
+        });
+    };
+    const tagBuildings = (buildings: unknown, path: string) => {
+        if (!Array.isArray(buildings)) return;
+        buildings.forEach((building: unknown, b) => tagAll(asObject(building)?.inhabitants, `${path}[${b}].inhabitants`));
+    };
+    if (!Array.isArray(island.regions)) return;
+    island.regions.forEach((item: unknown, r) => {
+        const region = asObject(item);
+        if (!region) return;
+        tagAll(region.fauna, `regions[${r}].fauna`);
+        tagBuildings(region.buildings, `regions[${r}].buildings`);
+        if (!Array.isArray(region.geo_features)) return;
+        region.geo_features.forEach((item: unknown, g) => {
+            const feature = asObject(item);
+            tagAll(feature?.fauna, `regions[${r}].geo_features[${g}].fauna`);
+            tagBuildings(feature?.buildings, `regions[${r}].geo_features[${g}].buildings`);
+        });
+    });
+}
+
+/** The value as a JSON object, or undefined if it's anything else */
+function asObject(value: unknown): JsonObject | undefined {
+    return typeof value === "object" && value !== null && !Array.isArray(value) ? value as JsonObject : undefined;
+}
+
+function faunaKind(being: JsonObject): string | undefined {
+    if (typeof being.human_name === "string") return "human";
+    const species = typeof being.species === "string" ? being.species.toLowerCase() : undefined;
+    if (species === undefined) return undefined;
+    if (monsterSpecies.some(s => s.toLowerCase() === species)) return "monster";
+    if (animalSpecies.includes(species)) return "animal";
+    if (seaAnimalSpecies.includes(species)) return "sea_animal";
+    return undefined;
+}
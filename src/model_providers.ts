@@ -0,0 +1,363 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+import { PromptSection } from "../node_modules/typechat/dist/model";
+import { MythosLanguageModel, ModelUsage } from "./mythographer";
+
+// Language model providers, selected by configuration (normally the .env file).
+//
+//  MYTHOS_PROVIDER             openai | azure | local | fixture    (default: azure)
+//
+//  openai   OPENAI_API_KEY, OPENAI_MODEL (default gpt-4o), OPENAI_ENDPOINT, OPENAI_ORGANIZATION
+//  azure    AZURE_OPENAI_API_KEY (falls back to OPENAI_API_KEY),
+//           AZURE_OPENAI_ENDPOINT (full chat/completions url), or build one from
+//           AZURE_OPENAI_RESOURCE (default mythogen), AZURE_OPENAI_DEPLOYMENT (default gpt-4o),
+//           AZURE_OPENAI_API_VERSION (default 2023-03-15-preview)
+//  local    LOCAL_MODEL_ENDPOINT (default http://localhost:11434/v1/chat/completions), LOCAL_MODEL_NAME,
+//           LOCAL_MODEL_API_KEY (optional) -- anything that speaks the OpenAI chat completions protocol
+//  fixture  MYTHOS_FIXTURE_DIR, MYTHOS_FIXTURE_MATCH  prompt | sequence  (default: prompt)
+//           replays recorded responses from disk; no network needed
+//
+// All providers support streaming (`completeStream`); the fixture model streams its recorded response in small chunks.
+// Wrapping any of them with `createRecordingLanguageModel` saves its responses as fixtures for the fixture provider.
+
+export type ModelProviderName = "openai" | "azure" | "local" | "fixture";
+
+/**
+ * A recorded model response. Fixture directories hold one of these per .json file.
+ * `prompt` is optional for hand-written fixtures that are only ever replayed in sequence.
+ */
+export type ModelFixture = {
+    key?: string;                   // fixtureKey(prompt); computed from `prompt` when omitted
+    prompt?: PromptSection[];
+    response: string;
+    usage?: ModelUsage;             // what the recorded call cost, reported again on replay
+    latency_ms?: number;
+};
+
+export type FixtureMatchMode = "prompt" | "sequence";
+
+/**
+ * Creates the language model named by `MYTHOS_PROVIDER` in the given environment.
+ * Throws an `Error` describing the missing setting if the provider can't be configured.
+ */
+export function createModelFromEnv(env: Record<string, string | undefined>): MythosLanguageModel {
+    const provider = (env.MYTHOS_PROVIDER ?? "azure").toLowerCase() as ModelProviderName;
+
+    switch (provider) {
+        case "openai":
+            return createChatCompletionsModel(
+                env.OPENAI_ENDPOINT ?? "https://api.openai.com/v1/chat/completions",
+                {
+                    "Authorization": `Bearer ${required(env, "OPENAI_API_KEY")}`,
+                    "OpenAI-Organization": env.OPENAI_ORGANIZATION ?? ""
+                },
+                { model: env.OPENAI_MODEL ?? "gpt-4o" }
+            );
+
+        case "azure": {
+            const apiKey = env.AZURE_OPENAI_API_KEY ?? required(env, "OPENAI_API_KEY");
+            const resource = env.AZURE_OPENAI_RESOURCE ?? "mythogen";
+            const deployment = env.AZURE_OPENAI_DEPLOYMENT ?? "gpt-4o";
+            const apiVersion = env.AZURE_OPENAI_API_VERSION ?? "2023-03-15-preview";
+            const endPoint = env.AZURE_OPENAI_ENDPOINT ??
+                `https://${resource}.openai.azure.com/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`;
+            // Authorization is needed for managed identity, api-key for a regular key
+            return createChatCompletionsModel(endPoint, { "Authorization": `Bearer ${apiKey}`, "api-key": apiKey }, {});
+        }
+
+        case "local":
+            // local servers (ollama, llama.cpp, vllm, lm studio...) generally ignore the key, but send one if configured
+            return createChatCompletionsModel(
+                env.LOCAL_MODEL_ENDPOINT ?? "http://localhost:11434/v1/chat/completions",
+                { "Authorization": `Bearer ${env.LOCAL_MODEL_API_KEY ?? "local"}` },
+                { model: required(env, "LOCAL_MODEL_NAME") }
+            );
+
+        case "fixture": {
+            const match = env.MYTHOS_FIXTURE_MATCH ?? "prompt";
+            if (match !== "prompt" && match !== "sequence") {
+                throw new Error(`Unknown MYTHOS_FIXTURE_MATCH "${match}". Expected one of: prompt, sequence.`);
+            }
+            return createFixtureLanguageModel(required(env, "MYTHOS_FIXTURE_DIR"), match);
+        }
+
+        default:
+            throw new Error(`Unknown MYTHOS_PROVIDER "${provider}". Expected one of: openai, azure, local, fixture.`);
+    }
+}
+
+/**
+ * Creates a language model for an OpenAI-style chat completions endpoint (OpenAI, Azure OpenAI and the many local
+ * servers that copy the protocol). Adapted from typechat's fetch model, plus server-sent-event streaming.
+ * @param url The chat completions url.
+ * @param headers Auth headers for the endpoint.
+ * @param defaultParams Extra body parameters sent with every request, e.g. the model name.
+ */
+export function createChatCompletionsModel(url: string, headers: Record<string, string>, defaultParams: Record<string, unknown>): MythosLanguageModel {
+    const model: MythosLanguageModel = {
+        complete,
+        completeStream
+    };
+    return model;
+
+    async function complete(prompt: string | PromptSection[], signal?: AbortSignal): Promise<Result<string>> {
+        const response = await post(prompt, false, signal);
+        if (!response.success) {
+            return response;
+        }
+        let json: unknown;
+        try {
+            json = await response.data.json();
+        } catch (e: any) {
+            return error(signal?.aborted ? "Request aborted." : `REST API sent malformed JSON: ${e.message}`);
+        }
+        const content = jsonAt(json, "choices", 0, "message", "content");
+        if (typeof content !== "string") {
+            return error(`REST API unexpected response format: ${JSON.stringify(content)}`);
+        }
+        reportUsage(jsonAt(json, "usage"));
+        return success(content);
+    }
+
+    async function completeStream(prompt: string | PromptSection[], onChunk: (text: string) => void, signal?: AbortSignal): Promise<Result<string>> {
+        const response = await post(prompt, true, signal);
+        if (!response.success) {
+            return response;
+        }
+        const body = response.data.body;
+        if (!body) {
+            return error("REST API returned an empty stream");
+        }
+
+        // server-sent events: "data: {json}" lines separated by blank lines, terminated by "data: [DONE]"
+        const decoder = new TextDecoder();
+        let buffered = "";
+        let text = "";
+        let usage: unknown;
+        try {
+            for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+                buffered += decoder.decode(bytes, { stream: true });
+                let newline: number;
+                while ((newline = buffered.indexOf("\n")) >= 0) {
+                    const line = buffered.slice(0, newline).trim();
+                    buffered = buffered.slice(newline + 1);
+                    if (!line.startsWith("data:")) continue;
+                    const data = line.slice(5).trim();
+                    if (data === "[DONE]") {
+                        reportUsage(usage);
+                        return success(text);
+                    }
+                    let delta: unknown;
+                    try {
+                        const event: unknown = JSON.parse(data);
+                        delta = jsonAt(event, "choices", 0, "delta", "content");
+                        // only servers asked for it (or that send it anyway) put usage on the last event
+                        usage = jsonAt(event, "usage") ?? usage;
+                    } catch {
+                        return error(`REST API sent a malformed stream event: ${data}`);
+                    }
+                    if (typeof delta === "string" && delta.length > 0) {
+                        text += delta;
+                        onChunk(delta);
+                    }
+                }
+            }
+        } catch (e: any) {
+            // the body stream throws when the request is aborted mid-response
+            return error(signal?.aborted ? "Request aborted." : `REST API stream failed: ${e.message}`);
+        }
+        reportUsage(usage);
+        return success(text);
+    }
+
+    /** Passes the endpoint's token counts to onUsage, if it sent any */
+    function reportUsage(usage: unknown) {
+        if (!model.onUsage || typeof usage !== "object" || usage === null) return;
+        const counts: ModelUsage = {};
+        for (const field of ["prompt_tokens", "completion_tokens", "total_tokens"] as const) {
+            const count = jsonAt(usage, field);
+            if (typeof count === "number") counts[field] = count;
+        }
+        model.onUsage(counts);
+    }
+
+    /** Posts the prompt, retrying transient http errors like typechat does. Aborting the signal cancels the request and any retries. */
+    async function post(prompt: string | PromptSection[], stream: boolean, signal?: AbortSignal): Promise<Result<Response>> {
+        const retryMaxAttempts = model.retryMaxAttempts ?? 3;
+        const retryPauseMs = model.retryPauseMs ?? 1000;
+        const messages = typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt;
+        for (let retryCount = 0; ; retryCount++) {
+            let response: Response;
+            try {
+                response = await fetch(url, {
+                    method: "POST",
+                    body: JSON.stringify({ ...defaultParams, messages, temperature: 0, n: 1, ...(stream ? { stream: true } : {}) }),
+                    headers: { "content-type": "application/json", ...headers },
+                    ...(signal ? { signal } : {})
+                });
+            } catch (e: any) {
+                return error(signal?.aborted ? "Request aborted." : `REST API request failed: ${e.message}`);
+            }
+            if (response.ok) {
+                return success(response);
+            }
+            if (!isTransientHttpError(response.status) || retryCount >= retryMaxAttempts) {
+                return error(`REST API error ${response.status}: ${response.statusText}`);
+            }
+            await new Promise(r => setTimeout(r, retryPauseMs));
+            if (signal?.aborted) {
+                return error("Request aborted.");
+            }
+        }
+    }
+}
+
+/**
+ * Creates a deterministic language model that replays recorded responses from a directory of
+ * `ModelFixture` json files.
+ *
+ * In "prompt" mode, a response is looked up by the hash of the exact prompt; an unknown prompt is an error,
+ * which makes prompt drift visible. In "sequence" mode, responses are replayed in file name order regardless
+ * of the prompt, which is handy for hand-written fixtures and for replaying after prompt template changes.
+ * @param fixtureDir Directory containing the fixture files.
+ * @param match How to pick a response for a prompt.
+ */
+export function createFixtureLanguageModel(fixtureDir: string, match: FixtureMatchMode = "prompt"): MythosLanguageModel {
+    if (!fs.existsSync(fixtureDir)) {
+        throw new Error(`Fixture directory not found: ${fixtureDir}`);
+    }
+    const fixtures = loadFixtures(fixtureDir);
+    const byKey = new Map<string, ModelFixture>();
+    for (const fixture of fixtures) {
+        const key = fixture.key ?? (fixture.prompt ? fixtureKey(fixture.prompt) : undefined);
+        if (key) byKey.set(key, fixture);
+    }
+    let next = 0;
+
+    const model: MythosLanguageModel = {
+        complete,
+        completeStream
+    };
+    return model;
+
+    async function completeStream(prompt: string | PromptSection[], onChunk: (text: string) => void): Promise<Result<string>> {
+        const result = await complete(prompt);
+        if (result.success) {
+            for (let i = 0; i < result.data.length; i += 64) {
+                onChunk(result.data.slice(i, i + 64));
+            }
+        }
+        return result;
+    }
+
+    async function complete(prompt: string | PromptSection[]): Promise<Result<string>> {
+        if (match === "sequence") {
+            if (next >= fixtures.length) {
+                return error(`Fixture model exhausted: all ${fixtures.length} recorded responses in ${fixtureDir} have been used.`);
+            }
+            return replay(fixtures[next++]);
+        }
+
+        const key = fixtureKey(prompt);
+        const fixture = byKey.get(key);
+        if (!fixture) {
+            return error(`No recorded response for prompt ${key} in ${fixtureDir}.`);
+        }
+        return replay(fixture);
+    }
+
+    function replay(fixture: ModelFixture): Result<string> {
+        if (model.onUsage && (fixture.usage || fixture.latency_ms !== undefined)) {
+            model.onUsage({ ...fixture.usage, ...(fixture.latency_ms !== undefined ? { latency_ms: fixture.latency_ms } : {}) });
+        }
+        return success(fixture.response);
+    }
+}
+
+/**
+ * Wraps a model so that every successful response is saved to `fixtureDir` as a `ModelFixture`, with its
+ * prompt, token usage and latency. The files are numbered in call order, so the directory replays with
+ * `createFixtureLanguageModel` in either match mode. Usage reports pass through to the wrapper's own `onUsage`.
+ * @param model The model to record.
+ * @param fixtureDir Directory to write the fixtures to; created if needed. Existing fixtures are kept.
+ */
+export function createRecordingLanguageModel(model: MythosLanguageModel, fixtureDir: string): MythosLanguageModel {
+    fs.mkdirSync(fixtureDir, { recursive: true });
+    let next = fs.readdirSync(fixtureDir).filter(name => name.endsWith(".json")).length;
+    let usage: ModelUsage | undefined;
+    model.onUsage = u => {
+        usage = u;
+        recorder.onUsage?.(u);
+    };
+
+    const recorder: MythosLanguageModel = {
+        complete: (prompt, signal) => record(prompt, () => model.complete(prompt, signal))
+    };
+    if (model.completeStream) {
+        const completeStream = model.completeStream;
+        recorder.completeStream = (prompt, onChunk, signal) => record(prompt, () => completeStream(prompt, onChunk, signal));
+    }
+    return recorder;
+
+    async function record(prompt: string | PromptSection[], call: () => Promise<Result<string>>): Promise<Result<string>> {
+        usage = undefined;
+        const start = Date.now();
+        const result = await call();
+        if (result.success) {
+            const sections: PromptSection[] = typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt;
+            const key = fixtureKey(sections);
+            const fixture: ModelFixture = {
+                key,
+                prompt: sections,
+                response: result.data,
+                ...(usage ? { usage } : {}),
+                latency_ms: Date.now() - start
+            };
+            const name = `${String(next++).padStart(4, "0")}-${key}.json`;
+            fs.writeFileSync(path.join(fixtureDir, name), JSON.stringify(fixture, null, 2) + "\n", "utf8");
+        }
+        return result;
+    }
+}
+
+/**
+ * Returns a stable key for a prompt, used to name and look up recorded responses.
+ */
+export function fixtureKey(prompt: string | PromptSection[]): string {
+    const sections: PromptSection[] = typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt;
+    return crypto.createHash("sha256").update(JSON.stringify(sections)).digest("hex").slice(0, 16);
+}
+
+/** The value at a path of keys and indices in parsed JSON, or undefined if the path isn't there */
+function jsonAt(json: unknown, ...path: (string | number)[]): unknown {
+    let value = json;
+    for (const key of path) {
+        if (typeof value !== "object" || value === null || !Object.prototype.hasOwnProperty.call(value, key)) return undefined;
+        value = (value as Record<string | number, unknown>)[key];
+    }
+    return value;
+}
+
+/** True for http statuses worth retrying */
+function isTransientHttpError(code: number): boolean {
+    return code === 429 || code === 500 || code === 502 || code === 503 || code === 504;
+}
+
+/** Reads every fixture in a directory, sorted by file name */
+function loadFixtures(fixtureDir: string): ModelFixture[] {
+    return fs.readdirSync(fixtureDir)
+        .filter(name => name.endsWith(".json"))
+        .sort()
+        .map(name => JSON.parse(fs.readFileSync(path.join(fixtureDir, name), "utf8")) as ModelFixture);
+}
+
+/** Returns the named setting or throws if it isn't configured */
+function required(env: Record<string, string | undefined>, name: string): string {
+    const value = env[name];
+    if (value === undefined || value === "") {
+        throw new Error(`Missing setting ${name} for MYTHOS_PROVIDER=${env.MYTHOS_PROVIDER ?? "azure"}.`);
+    }
+    return value;
+}
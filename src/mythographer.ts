@@ -1,12 +1,69 @@
 import { Result, success, error } from "../node_modules/typechat/dist/result";
 // import { TypeChatJsonValidator } from "../node_modules/typechat/dist/typechat";
 import { TypeChatLanguageModel, PromptSection, PromptContent } from "../node_modules/typechat/dist/model";
+import { JsonPatchOperation, validatePatch } from "./json_patch";
+
+/**
+ * A TypeChat language model that can optionally stream its completion as it's generated, and that
+ * can optionally abort an in-flight request.
+ */
+export interface MythosLanguageModel extends TypeChatLanguageModel {
+    /**
+     * Obtains a completion from the language model for the given prompt.
+     * @param prompt A prompt string or an array of prompt sections.
+     * @param signal When aborted, the model should give up on the request (and its retries) and return an error.
+     *   Models that ignore it are still abandoned by the caller, but the request runs to completion.
+     */
+    complete(prompt: string | PromptSection[], signal?: AbortSignal): Promise<Result<string>>;
+
+    /**
+     * Obtains a completion from the language model, calling `onChunk` with each piece of text as it arrives.
+     * @param prompt A prompt string or an array of prompt sections.
+     * @param onChunk Receives each new piece of the completion, in order.
+     * @param signal As for `complete`.
+     * @returns A promise for the complete response text.
+     */
+    completeStream?(prompt: string | PromptSection[], onChunk: (text: string) => void, signal?: AbortSignal): Promise<Result<string>>;
+
+    /**
+     * When assigned, models that know what a call cost (tokens, or a recorded latency) report it here,
+     * once per successful `complete` or `completeStream`.
+     */
+    onUsage?: (usage: ModelUsage) => void;
+}
+
+/**
+ * What a model call cost, as far as the model knows. Token counts are as reported by the endpoint.
+ */
+export type ModelUsage = {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    latency_ms?: number;            // only from models that replay a recorded call; otherwise the caller times it
+};
+
+/**
+ * Per-call options for `translate`, `modify` and `repair`.
+ */
+export type CompletionOptions = {
+    /**
+     * When set, the completion is streamed (if the model supports it) and each new piece of response text
+     * is passed to this callback. Models without streaming call it once with the whole response.
+     */
+    onChunk?: (text: string) => void;
+
+    /**
+     * Aborts the call. The model request is canceled (if the model supports it) and the call returns
+     * an error result instead of waiting for the response.
+     */
+    signal?: AbortSignal;
+};
 
 /**
  * Represents an object that can translate natural language requests in JSON objects of the given type.
  */
 export interface Mythographer<T extends object> {
-    model: TypeChatLanguageModel;                       // wrapper for the LLM we're using
+    model: MythosLanguageModel;                         // wrapper for the LLM we're using
     validator: TypeChatJsonValidator<T>;                // validator for the JSON schema
 
     /**
@@ -33,6 +90,13 @@ export interface Mythographer<T extends object> {
      */
     createModificationPrompt(previousJSON: string, modification: string): string;
 
+    /**
+     * Creates a prompt that asks for a modification as an RFC 6902 JSON Patch rather than a whole new document.
+     * @param previousJSON The JSON object to modify.
+     * @param modification The requested change.
+     */
+    createPatchPrompt(previousJSON: string, modification: string): string;
+
     /**
      * Creates a repair prompt to append to an original prompt/response in order to repair a JSON object that
      * failed to validate. An application can assign a new function
@@ -52,8 +116,25 @@ export interface Mythographer<T extends object> {
      */
     validateInstance(instance: T): Result<T>;
 
+    /**
+     * Deterministically fixes trivial problems (enum casing, numbers sent as strings, missing arrays...) in an
+     * instance that failed validation, without a model call. Called before each `repair` round trip by the
+     * repair loops. By default it changes nothing; an application can assign a schema-aware implementation.
+     * @param instance The JSON object that failed validation.
+     * @returns The (possibly) fixed object and a description of each fix made.
+     */
+    repairLocally(instance: object): { data: T; fixes: string[] };
+
     json_is_schema_valid(jsonObject: object): Result<T>;
 
+    /**
+     * Validates the given JSON object against the schema and, if that succeeds, against `validateInstance`.
+     * The error message is suitable for passing straight to `repair`.
+     * @param jsonObject The JSON object to validate.
+     * @returns A `Success<T>` with the validated instance, or an `Error` with the schema or semantic problems.
+     */
+    json_is_valid(jsonObject: object): Result<T>;
+
     /**
      * Translates a natural language request into an object of type `T`. If the JSON object returned by
      * the language model fails to validate and the `attemptRepair` property is `true`, a second
@@ -62,13 +143,20 @@ export interface Mythographer<T extends object> {
      * @param request The natural language request.
      * @param promptPreamble An optional string or array of prompt sections to prepend to the generated
      *   prompt. If a string is specified, it is converted into a single "user" role prompt section.
+     * @param options Optional per-call settings, e.g. a streaming callback.
      * @returns A promise for the resulting object.
      */
-    translate(request: string, promptPreamble?: string | PromptSection[]): Promise<Result<T>>;
+    translate(request: string, promptPreamble?: string | PromptSection[], options?: CompletionOptions): Promise<Result<T>>;
 
-    modify(previousJSON: object, modification: string, promptPreamble?: string | PromptSection[]): Promise<Result<T>>;
+    modify(previousJSON: object, modification: string, promptPreamble?: string | PromptSection[], options?: CompletionOptions): Promise<Result<T>>;
 
-    repair(previousJSON: object, validationError: string, promptPreamble?: string | PromptSection[]): Promise<Result<T>>;
+    /**
+     * Like `modify`, but the model returns only the changes, as a JSON Patch against `previousJSON`.
+     * The patch is checked for well-formedness but not applied; that's up to the caller.
+     */
+    modifyPatch(previousJSON: object, modification: string, promptPreamble?: string | PromptSection[], options?: CompletionOptions): Promise<Result<JsonPatchOperation[]>>;
+
+    repair(previousJSON: object, validationError: string, promptPreamble?: string | PromptSection[], options?: CompletionOptions): Promise<Result<T>>;
 }
 
 /**
@@ -102,7 +190,7 @@ export interface TypeChatJsonValidator<T extends object> {
  * @param typeName The name of the JSON target type in the schema.
  * @returns A `TypeChatJsonTranslator<T>` instance.
  */
-export function createMythographer<T extends object>(model: TypeChatLanguageModel, validator: TypeChatJsonValidator<T>): Mythographer<T> {
+export function createMythographer<T extends object>(model: MythosLanguageModel, validator: TypeChatJsonValidator<T>): Mythographer<T> {
     const translator: Mythographer<T> = {
         model,
         validator,
@@ -110,10 +198,14 @@ export function createMythographer<T extends object>(model: TypeChatLanguageMode
         createRequestPrompt,
         createRepairPrompt,
         createModificationPrompt,
+        createPatchPrompt,
         validateInstance: success,
+        repairLocally: (instance: object) => ({ data: instance as T, fixes: [] }),
         translate,
         json_is_schema_valid,
+        json_is_valid,
         modify,
+        modifyPatch,
         repair
 
     };
@@ -138,6 +230,18 @@ export function createMythographer<T extends object>(model: TypeChatLanguageMode
             `The following is the modified JSON object with 2 spaces of indentation and no properties with the value undefined:\n`;
     }
 
+    function createPatchPrompt(previousJSON: string, modification: string) {
+        return `You are a service that edits JSON objects of type "${validator.getTypeName()}" according to the following TypeScript definitions:\n` +
+            `\`\`\`\n${validator.getSchemaText()}\`\`\`\n` +
+            `The following is a JSON object:\n` +
+            `"""\n${previousJSON}\n"""\n` +
+            `The following modification is to be made to the appropriate subset of the provided JSON object:\n` +
+            `"""\n${modification}\n"""\n` +
+            `Respond with an RFC 6902 JSON Patch: a JSON array of operations ("add", "remove", "replace", "move", "copy") whose "path" and "from" are JSON pointers into the object above, e.g. "/regions/2/story".\n` +
+            `Include only the operations needed for the modification; anything not mentioned in the patch stays exactly as it is. The result must still be a valid "${validator.getTypeName()}".\n` +
+            `The following is the JSON Patch with 2 spaces of indentation:\n`;
+    }
+
     function createRepairPrompt(previousJSON: string, validationError: string) {
         return `You are a service that modifies JSON objects of type "${validator.getTypeName()}" according to the following TypeScript definitions:\n` +
             `\`\`\`\n${validator.getSchemaText()}\`\`\`\n` +
@@ -168,16 +272,57 @@ export function createMythographer<T extends object>(model: TypeChatLanguageMode
         return success(jsonObject as T);
     }
 
+    function parse_patch_response(responseText: string): Result<JsonPatchOperation[]> {
+        const startIndex = responseText.indexOf("[");
+        const endIndex = responseText.lastIndexOf("]");
+        if (!(startIndex >= 0 && endIndex > startIndex)) {
+            return error(`Response is not a JSON Patch:\n${responseText}`);
+        }
+        let ops: unknown;
+        try {
+            ops = JSON.parse(responseText.slice(startIndex, endIndex + 1));
+        }
+        catch (e) {
+            return error(e instanceof SyntaxError ? e.message : "JSON parse error");
+        }
+        return validatePatch(ops);
+    }
+
     function json_is_schema_valid(jsonObject: object): Result<T> {
         return translator.validator.validate(jsonObject);
     }
 
-    async function translate(request: string, promptPreamble?: string | PromptSection[]) {
+    function json_is_valid(jsonObject: object): Result<T> {
+        const schemaResult = translator.json_is_schema_valid(jsonObject);
+        return schemaResult.success ? translator.validateInstance(schemaResult.data) : schemaResult;
+    }
+
+    /** Completes the prompt, streaming through options.onChunk when asked to, and giving up when options.signal aborts */
+    async function complete(prompt: PromptSection[], options?: CompletionOptions): Promise<Result<string>> {
+        const signal = options?.signal;
+        if (signal?.aborted) {
+            return error("Request aborted.");
+        }
+        const onChunk = options?.onChunk;
+        if (!onChunk) {
+            return abortable(model.complete(prompt, signal), signal);
+        }
+        if (model.completeStream) {
+            return abortable(model.completeStream(prompt, onChunk, signal), signal);
+        }
+        const response = await abortable(model.complete(prompt, signal), signal);
+        if (response.success) {
+            onChunk(response.data);
+        }
+        return response;
+    }
+
+    async function translate(request: string, promptPreamble?: string | PromptSection[], options?: CompletionOptions) {
         const preamble: PromptSection[] = typeof promptPreamble === "string" ? [{ role: "user", content: promptPreamble }] : promptPreamble ?? [];
         let prompt: PromptSection[] = [...preamble, { role: "user", content: translator.createRequestPrompt(request) }];
 
         while (true) {
-            const response = await model.complete(prompt);
+            const response = await complete(prompt, options);
             if (!response.success) {
                 return response;
             }
@@ -187,11 +332,11 @@ export function createMythographer<T extends object>(model: TypeChatLanguageMode
         }
     }
 
-    async function modify(previousJSON: object, modification: string, promptPreamble?: string | PromptSection[]) {
+    async function modify(previousJSON: object, modification: string, promptPreamble?: string | PromptSection[], options?: CompletionOptions) {
         const prevJsonStr = JSON.stringify(previousJSON, null, 2);
         const preamble: PromptSection[] = typeof promptPreamble === "string" ? [{ role: "user", content: promptPreamble }] : promptPreamble ?? [];
         const prompt: PromptSection[] = [...preamble, { role: "user", content: translator.createModificationPrompt(prevJsonStr, modification) }];
-        const response = await model.complete(prompt);
+        const response = await complete(prompt, options);
         if (!response.success) {
             return response;
         }
@@ -199,11 +344,23 @@ export function createMythographer<T extends object>(model: TypeChatLanguageMode
         return parse_json_response(response.data);
     }
 
-    async function repair(previousJSON: object, validationError: string, promptPreamble?: string | PromptSection[]) {
+    async function modifyPatch(previousJSON: object, modification: string, promptPreamble?: string | PromptSection[], options?: CompletionOptions) {
+        const prevJsonStr = JSON.stringify(previousJSON, null, 2);
+        const preamble: PromptSection[] = typeof promptPreamble === "string" ? [{ role: "user", content: promptPreamble }] : promptPreamble ?? [];
+        const prompt: PromptSection[] = [...preamble, { role: "user", content: translator.createPatchPrompt(prevJsonStr, modification) }];
+        const response = await complete(prompt, options);
+        if (!response.success) {
+            return response;
+        }
+
+        return parse_patch_response(response.data);
+    }
+
+    async function repair(previousJSON: object, validationError: string, promptPreamble?: string | PromptSection[], options?: CompletionOptions) {
         const prevJsonStr = JSON.stringify(previousJSON, null, 2);
         const preamble: PromptSection[] = typeof promptPreamble === "string" ? [{ role: "user", content: promptPreamble }] : promptPreamble ?? [];
         const prompt: PromptSection[] = [...preamble, { role: "user", content: translator.createRepairPrompt(prevJsonStr, validationError) }];
-        const response = await model.complete(prompt);
+        const response = await complete(prompt, options);
         if (!response.success) {
             return response;
         }
@@ -212,6 +369,63 @@ export function createMythographer<T extends object>(model: TypeChatLanguageMode
     }
 }
 
+/**
+ * Validates an instance and, while it fails, asks the translator to repair it, up to `maxAttempts` repairs.
+ * Returns the last instance even if it never validated (`valid: false`, with the last error in `message`),
+ * so callers can decide whether a best-effort result is good enough.
+ * @param translator The translator whose validator and repair prompt to use.
+ * @param instance The JSON object to validate.
+ * @param maxAttempts The maximum number of repair round trips.
+ * @param promptPreamble Optional context prepended to each repair prompt.
+ * @param options Per-call options passed to each repair, e.g. an abort signal.
+ */
+export async function repairUntilValid<T extends object>(
+    translator: Mythographer<T>,
+    instance: T,
+    maxAttempts: number,
+    promptPreamble?: string | PromptSection[],
+    options?: CompletionOptions
+): Promise<{ data: T; valid: boolean; message?: string }> {
+    let current = instance;
+    for (let attempt = 0; ; attempt++) {
+        let validation = translator.json_is_valid(current);
+        if (!validation.success) {
+            const local = translator.repairLocally(current);
+            if (local.fixes.length > 0) {
+                current = local.data;
+                validation = translator.json_is_valid(current);
+            }
+        }
+        if (validation.success) {
+            return { data: validation.data, valid: true };
+        }
+        if (attempt >= maxAttempts) {
+            return { data: current, valid: false, message: validation.message };
+        }
+        const repaired = await translator.repair(current, validation.message, promptPreamble, options);
+        if (!repaired.success) {
+            return { data: current, valid: false, message: repaired.message };
+        }
+        current = repaired.data;
+    }
+}
+
+/**
+ * Resolves with the promise's result, or with an error result as soon as the signal aborts,
+ * whichever comes first. For models that don't watch the signal themselves.
+ */
+function abortable(promise: Promise<Result<string>>, signal: AbortSignal | undefined): Promise<Result<string>> {
+    if (!signal) {
+        return promise;
+    }
+    return new Promise(resolve => {
+        const onAbort = () => resolve(error("Request aborted."));
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, (e: unknown) => resolve(error(e instanceof Error ? e.message : String(e))))
+            .finally(() => signal.removeEventListener("abort", onAbort));
+    });
+}
+
 /**
  * Recursively delete properties with null values from the given object. This function assumes there are no
  * circular references in the object.
@@ -4,40 +4,101 @@ import { Result } from "../node_modules/typechat/dist/result";
 import dotenv from "dotenv";
 import fs from "fs";
 import path from "path";
+import http from "http";
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
 import express from "express";
 import * as WebSocket from 'ws';    // ws cleverly exports both a class and a namespace; make it act normal
 import { WebSocketServer } from 'ws';
 
 // ------------------------ Env ------------------------
 
-dotenv.config();          // could use find-config to be smarter about locating .env, but our setup is simple enough
+dotenv.config({ quiet: true });   // could use find-config to be smarter about locating .env, but our setup is simple enough
+                                  // quiet: stdout is JSON log lines
 
-if (process.env.OPENAI_API_KEY === undefined) {
-  console.log("No OpenAI API key found in .env file. Exiting.");
-  process.exit(1);
-}
+// ------------------------ Logs & metrics ------------------------
+
+import { createLogger, isLogLevel, Logger } from "./log";             // JSON lines, tagged with job ids
+import { createMetricsRegistry, PROMETHEUS_CONTENT_TYPE } from "./metrics";  // Prometheus text format for /metrics
+
+const log = createLogger({ level: isLogLevel(process.env.MYTHOS_LOG_LEVEL) ? process.env.MYTHOS_LOG_LEVEL : "info" });
+
+const metrics = createMetricsRegistry();
+const jobsStarted = metrics.counter("mythos_jobs_started_total", "Jobs accepted, by kind.");
+const jobsFinished = metrics.counter("mythos_jobs_finished_total", "Jobs finished, by kind and outcome (result, partial, error, timeout, canceled).");
+const jobDuration = metrics.histogram("mythos_job_duration_seconds", "Time from accepting a job to its end, queueing included, by kind.");
+const stageDuration = metrics.histogram("mythos_stage_duration_seconds", "Time jobs spend in each stage, from its status event to the next one.");
+const jobRepairs = metrics.histogram("mythos_job_repair_attempts", "Model repair attempts per finished job, by kind.", [0, 1, 2, 3, 5]);
+const repairAttempts = metrics.counter("mythos_repair_attempts_total", "Model repair round trips, by reason (validation or locks).");
+const localFixes = metrics.counter("mythos_local_fixes_total", "Validation errors fixed locally, without a model call.");
+const modelCalls = metrics.counter("mythos_model_calls_total", "Model calls, by outcome (ok or error).");
+const modelCallDuration = metrics.histogram("mythos_model_call_duration_seconds", "Model call latency.");
+const modelTokens = metrics.counter("mythos_model_tokens_total", "Tokens the model endpoint reported using, by type (prompt or completion).");
+metrics.gauge("mythos_websocket_connections", "Open WebSocket connections.", () => wss.clients.size);
+metrics.gauge("mythos_sessions", "Design sessions with participants or a running job.", () => sessions.size);
+metrics.gauge("mythos_jobs_running", "Jobs running now.", () => jobQueue.running);
+metrics.gauge("mythos_jobs_queued", "Jobs waiting for a free worker.", () => jobQueue.waiting);
+
+// The job a model call is made for, so its latency and tokens can be added to the job's totals
+const jobScope = new AsyncLocalStorage<JobContext>();
 
 // ------------------------ TypeChat ------------------------
 
-import { createAzureOpenAILanguageModel } from "typechat";          // wrapper for Azure OpenAI
+import { createModelFromEnv } from "./model_providers";           // openai / azure / local / fixture, chosen by MYTHOS_PROVIDER
 
 import { createTypeScriptJsonValidator } from "typechat/ts";        // TS-based JSON schema validator
 
-import { Island } from "./io_schema";                               // our schema type  
+import { Island, Quest, World } from "./io_schema";                 // our schema types
 
-import { createMythographer } from "./mythographer";                 // our Mythographer translator, adapted from typechat's json translator
+import { createMythographer, repairUntilValid, Mythographer, MythosLanguageModel } from "./mythographer";  // our Mythographer translator, adapted from typechat's json translator
                                                                      // our version doesn't repair automatically but rather exposes repair() separately
                                                                      // also adds a modify() that facilitates targeted changes to existing json
 
+import { createDialogueValidator, createQuestValidator, validateIsland, validateSkeleton, validateWorld } from "./island_validator";  // semantic checks: route links, reachability, uniqueness
 
-// ------------------------ Setup ------------------------
+import { IslandSkeleton, RegionContents } from "./skeleton_schema";  // sub-schemas for tiered generation
+import { Building } from "./io_schema";
+import { generateIslandHierarchically } from "./hierarchical";     // skeleton -> regions -> buildings, concurrently
 
-// Create LLM model wrapper (Azure OpenAI GPT-4o deployment URL)
-const model = createAzureOpenAILanguageModel(
-  process.env.OPENAI_API_KEY,
-  "https://mythogen.openai.azure.com/openai/deployments/gpt-4o/chat/completions?api-version=2023-03-15-preview"     // todo: change to the gpt-5 deployment
+import { createIslandStore, summarize, VersionSource } from "./island_store";  // file-backed islands with version history
+import { migrateIsland } from "./migrate";                          // islands saved under older schemas
 
-);
+import { applyPatch, diffJson, getAtPointer, JsonPatchOperation } from "./json_patch";  // patch-based modify
+
+import { createSchemaModel } from "./schema_model";                 // structural view of io_schema.ts
+import { createLocalRepair, withRouteRepair } from "./local_repair";  // deterministic fixes before LLM repair
+import { checkLockPointers, describeLocks, describeLockViolations, findLockViolations, restoreLocks } from "./locks";  // designer locks
+
+import { resolveSubtreeTarget, wrapSubtree, unwrapSubtree, describeSubtreeContext, SubtreeTarget } from "./subtree";  // path-scoped regeneration
+import { describeEntityContext, generatableTypes, insertOperations, resolveInsertTarget, InsertTarget } from "./entity";  // one Building, Human... at a time
+import { Dialogue } from "./dialogue_schema";                     // sub-schema for NPC dialogue trees
+import { describeDialogueContext, exportDialogue, findSpeaker, DialogueFormat, Speaker } from "./dialogue";  // dialogue prompts, Ink / Yarn export
+
+import { createIncrementalJsonParser, JsonPath } from "./incremental_json";  // reports regions/buildings as they stream in
+
+import { createJobQueue, JobHandle } from "./job_queue";           // server-wide job limit, fair between clients
+
+import { createIslandHistory, IslandHistory, HistoryEntryInfo } from "./history";  // per-session undo/redo
+
+import { createWorldStore, WorldInfo } from "./world_store";  // worlds: canon, island routes, member islands
+import { describeWorldContext } from "./world";                     // canon and neighbours for island prompts
+
+import { exportRouteGraph, GraphFormat } from "./route_graph";      // route graphs as Graphviz DOT / Mermaid
+import { analyzeBalance, describeBalanceIssues, BalanceReport, BalanceThresholds, DEFAULT_BALANCE_THRESHOLDS } from "./balance";  // difficulty and loot progression
+import { findLayoutProblems, layoutIsland, pinnedRegions, unmovedRegions } from "./layout";            // region coordinates that agree with sizes and routes
+import { rasterizeTerrain, encodeHeightmap, encodeSplatmap, terrainInfo, Terrain, TerrainFormat } from "./terrain";  // heightmaps and biome maps
+
+
+// ------------------------ Setup ------------------------
+
+// Create LLM model wrapper. Defaults to our Azure OpenAI GPT-4o deployment; see model_providers.ts for settings
+let model: MythosLanguageModel;
+try {
+  model = meterModel(createModelFromEnv(process.env));
+} catch (err: any) {
+  log.error(`Could not configure language model: ${err.message} Exiting.`);
+  process.exit(1);
+}
 
 // Load schema from typescript source. we will use this to generate the json schema internally and to create the atuo-repair prompts
 const viewSchema = fs.readFileSync(
@@ -51,10 +112,98 @@ const validator = createTypeScriptJsonValidator<Island>(viewSchema, "Island");
 // Create Mythographer translator -> user prompt to world design json
 const translator = createMythographer(model, validator);
 
+// Schema validity isn't enough: routes must point at real regions, names must be unique, etc.
+translator.validateInstance = validateIsland;
+
+// Structural model of the schema, used to find the type at a JSON pointer for path-scoped modify
+// and to fix trivial validation errors locally before paying for a repair round trip
+const schemaModel = createSchemaModel(viewSchema);
+translator.repairLocally = withRouteRepair(createLocalRepair<Island>(schemaModel, "Island"));
+
+// Sub-schemas for hierarchical generation (and dialogue) import their shared types from io_schema.ts.
+// The validator compiles a single file, so append them to the main schema with the import lines removed.
+function withSubSchema(file: string): string {
+  return viewSchema + "\n" + fs.readFileSync(path.join(__dirname, file), "utf8")
+    .split("\n").filter(line => !line.startsWith("import ")).join("\n");
+}
+const skeletonSchema = withSubSchema("skeleton_schema.ts");
+
+const hierarchicalTranslators = {
+  skeleton: createMythographer(model, createTypeScriptJsonValidator<IslandSkeleton>(skeletonSchema, "IslandSkeleton")),
+  regionContents: createMythographer(model, createTypeScriptJsonValidator<RegionContents>(skeletonSchema, "RegionContents")),
+  building: createMythographer(model, createTypeScriptJsonValidator<Building>(viewSchema, "Building")),
+};
+hierarchicalTranslators.skeleton.validateInstance = validateSkeleton;
+const skeletonModel = createSchemaModel(skeletonSchema);
+hierarchicalTranslators.skeleton.repairLocally = withRouteRepair(createLocalRepair<IslandSkeleton>(skeletonModel, "IslandSkeleton"));
+hierarchicalTranslators.regionContents.repairLocally = createLocalRepair<RegionContents>(skeletonModel, "RegionContents");
+hierarchicalTranslators.building.repairLocally = createLocalRepair<Building>(schemaModel, "Building");
+
+// One translator per object type in the schema, for generating a single Building, Human, Artifact... on its own.
+// Island's is the main translator, with its semantic checks
+const entityTranslators = new Map<string, Mythographer<object>>(generatableTypes(schemaModel).map(typeName => {
+  if (typeName === "Island") return [typeName, translator];
+  const entityTranslator = createMythographer(model, createTypeScriptJsonValidator<object>(viewSchema, typeName));
+  entityTranslator.repairLocally = createLocalRepair<object>(schemaModel, typeName);
+  return [typeName, entityTranslator];
+}));
+
+/** A Quest translator that also checks what the quest refers to against the island it's for */
+function createQuestTranslator(island: Island): Mythographer<object> {
+  const questTranslator = createMythographer(model, createTypeScriptJsonValidator<object>(viewSchema, "Quest"));
+  questTranslator.repairLocally = createLocalRepair<object>(schemaModel, "Quest");
+  const validateQuest = createQuestValidator(island);
+  questTranslator.validateInstance = quest => validateQuest(quest as Quest);
+  return questTranslator;
+}
+
+// Dialogue trees are checked against the island their speaker lives on, so each dialogue job gets a translator of its own
+const dialogueSchema = withSubSchema("dialogue_schema.ts");
+const dialogueModel = createSchemaModel(dialogueSchema);
+
+/** A Dialogue translator that checks the dialogue's graph, and what its conditions refer to against the island */
+function createDialogueTranslator(island: Island, speaker: Speaker): Mythographer<object> {
+  const dialogueTranslator = createMythographer(model, createTypeScriptJsonValidator<object>(dialogueSchema, "Dialogue"));
+  dialogueTranslator.repairLocally = createLocalRepair<object>(dialogueModel, "Dialogue");
+  const validateDialogue = createDialogueValidator(island, speaker.being.human_name);
+  dialogueTranslator.validateInstance = dialogue => validateDialogue(dialogue as Dialogue);
+  return dialogueTranslator;
+}
+
+// Subtree translators are created on demand, one per target type
+const subtreeTranslators = new Map<string, Mythographer<object>>();
+function getSubtreeTranslator(target: SubtreeTarget): Mythographer<object> {
+  const key = `${target.typeName}\n${target.declaredType}`;
+  let subtreeTranslator = subtreeTranslators.get(key);
+  if (!subtreeTranslator) {
+    subtreeTranslator = createMythographer(model, createTypeScriptJsonValidator<object>(target.schemaText, target.typeName));
+    subtreeTranslator.repairLocally = createLocalRepair<object>(createSchemaModel(target.schemaText), target.typeName);
+    subtreeTranslators.set(key, subtreeTranslator);
+  }
+  return subtreeTranslator;
+}
+
+// Every result and modification is saved as a new version of an island
+const store = createIslandStore(process.env.MYTHOS_STORE_DIR ?? path.join(process.cwd(), "data", "islands"));
+
+// Worlds group stored islands under a shared canon, with routes between them
+const worldStore = createWorldStore(process.env.MYTHOS_WORLD_DIR ?? path.join(process.cwd(), "data", "worlds"));
+const worldValidator = createTypeScriptJsonValidator<World>(viewSchema, "World");
+
+// Every job from every connection goes through one queue, so the model endpoint sees at most this many jobs at once
+const jobQueue = createJobQueue(Number(process.env.MYTHOS_JOB_CONCURRENCY) || 2, log);
+
+// A hierarchical job runs at most this many of its model calls at once; a client can ask for fewer, not more
+const MAX_PART_CONCURRENCY = Math.max(1, Math.floor(Number(process.env.MYTHOS_PART_CONCURRENCY) || 4));
+
+// A participant's display name is sent to everyone in their session with every session and job event
+const MAX_PARTICIPANT_NAME = 64;
+
 // ------------------------ Express (health / misc) ------------------------
 
 const app = express();
 app.set("json spaces", 2);
+app.use(express.json({ limit: "10mb" }));
 
 
 // Basic health/pulse endpoint
@@ -65,10 +214,277 @@ app.get("/", (_, res) => {
   });
 });
 
+// Prometheus scrape endpoint: job stages and outcomes, repairs, model calls and tokens, sockets and queue
+app.get("/metrics", (_, res) => {
+  res.set("Content-Type", PROMETHEUS_CONTENT_TYPE).send(metrics.render());
+});
+
+// ------------------------ Island store routes ------------------------
+
+// All stored islands, most recently updated first
+app.get("/islands", async (_, res) => {
+  res.json(await store.list());
+});
+
+// One island: summary, version history (without payloads), and the latest data
+app.get("/islands/:id", async (req, res) => {
+  const record = await store.get(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: "Island not found." });
+    return;
+  }
+  const versions = record.versions.map(({ data, ...info }) => info);
+  res.json({ ...summarize(record), versions, data: record.versions[record.versions.length - 1]?.data });
+});
+
+// A specific version of an island
+app.get("/islands/:id/versions/:version", async (req, res) => {
+  const requested = parseVersion(req.params.version);
+  if (!requested.success) {
+    res.status(400).json({ error: requested.message });
+    return;
+  }
+  const version = await store.getVersion(req.params.id, requested.data);
+  if (!version) {
+    res.status(404).json({ error: "Island or version not found." });
+    return;
+  }
+  res.json(version);
+});
+
+// Restore an old version by appending a copy of it as the new latest version. Body: { "version": 3 }
+app.post("/islands/:id/revert", async (req, res) => {
+  const target = parseVersion(req.body?.version);
+  if (!target.success || target.data === undefined) {
+    res.status(400).json({ error: !target.success ? target.message : "Missing 'version'." });
+    return;
+  }
+  const version = await store.revert(req.params.id, target.data);
+  if (!version) {
+    res.status(404).json({ error: "Island or version not found." });
+    return;
+  }
+  res.json(version);
+});
+
+// Re-run the layout pass on the latest version, saving the result as a new version if any region moved.
+// Body (optional): { "pinned": ["region name", ...] } regions whose coordinates and altitude must stay as they are
+app.post("/islands/:id/layout", async (req, res) => {
+  const pinned: unknown = req.body?.pinned ?? [];
+  if (!Array.isArray(pinned) || pinned.some(p => typeof p !== "string")) {
+    res.status(400).json({ error: "'pinned' must be an array of region names." });
+    return;
+  }
+  const latest = await store.getVersion(req.params.id);
+  if (!latest) {
+    res.status(404).json({ error: "Island not found." });
+    return;
+  }
+  const layout = layoutIsland(latest.data, { pinned });
+  const version = layout.moved.length > 0
+    ? await store.addVersion(req.params.id, layout.data, { source: "layout", partial: latest.partial })
+    : latest;
+  res.json({ moved: layout.moved, unsatisfied: layout.unsatisfied, ...version });
+});
+
+// Gameplay balance report: difficulty and loot along the main path, and the issues found.
+// Query: ?version=, and any threshold to override, e.g. &max_threat_jump=6
+app.get("/islands/:id/balance", async (req, res) => {
+  const thresholds = parseThresholds(req.query);
+  if (!thresholds.success) {
+    res.status(400).json({ error: thresholds.message });
+    return;
+  }
+  const requested = parseVersion(req.query.version);
+  if (!requested.success) {
+    res.status(400).json({ error: requested.message });
+    return;
+  }
+  const version = await store.getVersion(req.params.id, requested.data);
+  if (!version) {
+    res.status(404).json({ error: "Island or version not found." });
+    return;
+  }
+  res.json(analyzeBalance(version.data, thresholds.data));
+});
+
+// The island's route graph as Graphviz DOT or Mermaid text. Query: ?format=dot|mermaid (default dot), &version=
+app.get("/islands/:id/graph", async (req, res) => {
+  const format = (req.query.format ?? "dot") as string;
+  if (!isGraphFormat(format)) {
+    res.status(400).json({ error: "'format' must be 'dot' or 'mermaid'." });
+    return;
+  }
+  const requested = parseVersion(req.query.version);
+  if (!requested.success) {
+    res.status(400).json({ error: requested.message });
+    return;
+  }
+  const version = await store.getVersion(req.params.id, requested.data);
+  if (!version) {
+    res.status(404).json({ error: "Island or version not found." });
+    return;
+  }
+  res.type(format === "dot" ? "text/vnd.graphviz" : "text/plain").send(exportRouteGraph(version.data, format));
+});
+
+// Terrain for the engine, rasterized from the island's regions. Every terrain route takes ?version=, &resolution=
+// (pixels per side, default 513) and &seed= (defaults to the island name); the same query always gives the same map.
+
+// The map's size, scale, placement and altitude range, and its splat layers
+app.get("/islands/:id/terrain", async (req, res) => {
+  const terrain = await loadTerrain(req, res);
+  if (terrain) res.json(terrainInfo(terrain));
+});
+
+// 16-bit heightmap. Query: &format=png|raw (default png; raw is little-endian 16-bit samples)
+app.get("/islands/:id/terrain/heightmap", async (req, res) => {
+  const format = terrainFormat(req, res);
+  const terrain = format && await loadTerrain(req, res);
+  if (format && terrain) sendTerrain(res, encodeHeightmap(terrain, format), format, `heightmap.${format === "png" ? "png" : "r16"}`);
+});
+
+// 8-bit splat map of layer indices (water, path, then the biomes). Query: &format=png|raw (default png, indexed with preview colors)
+app.get("/islands/:id/terrain/splatmap", async (req, res) => {
+  const format = terrainFormat(req, res);
+  const terrain = format && await loadTerrain(req, res);
+  if (format && terrain) sendTerrain(res, encodeSplatmap(terrain, format), format, `splatmap.${format === "png" ? "png" : "r8"}`);
+});
+
+// Rasterizing takes a while at high resolutions, and the heightmap and splat map are usually fetched together
+const terrainCache = new Map<string, Terrain>();
+const TERRAIN_CACHE_SIZE = 8;
+
+/** Rasterizes (or reuses) the terrain a request asks for; sends an error and returns undefined if it can't */
+async function loadTerrain(req: express.Request, res: express.Response): Promise<Terrain | undefined> {
+  const id = req.params.id as string;
+  const requested = parseVersion(req.query.version);
+  if (!requested.success) {
+    res.status(400).json({ error: requested.message });
+    return undefined;
+  }
+  const version = await store.getVersion(id, requested.data);
+  if (!version) {
+    res.status(404).json({ error: "Island or version not found." });
+    return undefined;
+  }
+  const resolution = req.query.resolution !== undefined ? Number(req.query.resolution) : undefined;
+  if (resolution !== undefined && !Number.isInteger(resolution)) {
+    res.status(400).json({ error: "'resolution' must be an integer." });
+    return undefined;
+  }
+  const seed = req.query.seed !== undefined ? String(req.query.seed) : undefined;
+  const key = JSON.stringify([id, version.version, resolution, seed]);
+  let terrain = terrainCache.get(key);
+  if (!terrain) {
+    terrain = rasterizeTerrain(version.data, {
+      ...(resolution !== undefined ? { resolution } : {}),
+      ...(seed !== undefined ? { seed: /^\d+$/.test(seed) ? Number(seed) : seed } : {})
+    });
+    terrainCache.set(key, terrain);
+    if (terrainCache.size > TERRAIN_CACHE_SIZE) terrainCache.delete(terrainCache.keys().next().value!);
+  }
+  return terrain;
+}
+
+function terrainFormat(req: express.Request, res: express.Response): TerrainFormat | undefined {
+  const format = req.query.format ?? "png";
+  if (format !== "png" && format !== "raw") {
+    res.status(400).json({ error: "'format' must be 'png' or 'raw'." });
+    return undefined;
+  }
+  return format;
+}
+
+function sendTerrain(res: express.Response, data: Buffer, format: TerrainFormat, filename: string) {
+  res.type(format === "png" ? "image/png" : "application/octet-stream")
+    .attachment(filename)
+    .send(data);
+}
+
+// ------------------------ World routes ------------------------
+
+// All worlds, most recently updated first
+app.get("/worlds", async (_, res) => {
+  res.json(await worldStore.list());
+});
+
+// Create a world. Body: { "world_name", "canon", "island_ids"?: [...], "island_routes"?: [...] }
+app.post("/worlds", async (req, res) => {
+  const info: WorldInfo = {
+    world_name: req.body?.world_name,
+    canon: req.body?.canon,
+    island_ids: req.body?.island_ids ?? [],
+    island_routes: req.body?.island_routes ?? [],
+  };
+  const world = await assembleWorld(info);
+  if (!world.success) {
+    res.status(400).json({ error: world.message });
+    return;
+  }
+  res.status(201).json(await worldStore.create(info));
+});
+
+// One world: its record, plus the assembled World with the latest version of each island
+app.get("/worlds/:id", async (req, res) => {
+  const record = await worldStore.get(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: "World not found." });
+    return;
+  }
+  const world = await assembleWorld(record);
+  res.json({ ...record, world: world.success ? world.data : undefined, ...(world.success ? {} : { problems: world.message }) });
+});
+
+// Change a world's name, canon, islands or routes. Body: any of the fields accepted by POST /worlds
+app.patch("/worlds/:id", async (req, res) => {
+  const record = await worldStore.get(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: "World not found." });
+    return;
+  }
+  const changes: Partial<WorldInfo> = {};
+  for (const key of ["world_name", "canon", "island_ids", "island_routes"] as const) {
+    if (req.body?.[key] !== undefined) changes[key] = req.body[key];
+  }
+  const world = await assembleWorld({ ...record, ...changes });
+  if (!world.success) {
+    res.status(400).json({ error: world.message });
+    return;
+  }
+  res.json(await worldStore.update(record.id, changes));
+});
+
+// Add a stored island to a world. Body: { "island_id" }
+app.post("/worlds/:id/islands", async (req, res) => {
+  const record = await worldStore.get(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: "World not found." });
+    return;
+  }
+  const islandId = req.body?.island_id;
+  const world = await assembleWorld({ ...record, island_ids: [...new Set([...record.island_ids, islandId])] });
+  if (!world.success) {
+    res.status(400).json({ error: world.message });
+    return;
+  }
+  res.json(await worldStore.addIsland(record.id, islandId));
+});
+
+// Take an island out of a world (the island itself stays in the store)
+app.delete("/worlds/:id/islands/:islandId", async (req, res) => {
+  const record = await worldStore.removeIsland(req.params.id, req.params.islandId);
+  if (!record) {
+    res.status(404).json({ error: "World not found." });
+    return;
+  }
+  res.json(record);
+});
+
 // ------------------------ HTTP server ------------------------
 const port = 3000;
 const server = app.listen(port, () =>
-  console.log("Starting MythOS server on port", port)
+  log.info("Starting MythOS server", { port })
 );
 
 server.timeout = 3600000;
@@ -76,13 +492,58 @@ server.keepAliveTimeout = 3600000;
 
 // ------------------------ WebSocket layer ------------------------
 // Message protocol (client -> server)
-type ClientPrompt = { type: "prompt"; prompt: string };
-type ClientModify = { type: "modify"; prompt: string, originalJson: Island };
+// world_id (on prompt, prompt_hierarchical and modify) puts the world's canon and neighbouring islands in the prompt,
+// and adds the resulting island to the world
+type ClientPrompt = { type: "prompt"; prompt: string; world_id?: string };
+// modify either a stored island (island_id, optionally a version; latest by default), a document sent inline,
+// or, with neither, the session's current island (the last result, or wherever undo/redo left it)
+// mode "patch" asks the model for a JSON Patch instead of a whole island, and answers with result_patch
+// path (a JSON pointer, e.g. "/regions/2/buildings") regenerates only that subtree
+// locked is a list of JSON pointers the model must not change; violations are restored, or with
+// lock_policy "repair" first sent back to the model to fix
+type ClientModify = {
+  type: "modify"; prompt: string, originalJson?: Island; island_id?: string; version?: number;
+  mode?: "full" | "patch"; path?: string; locked?: string[]; lock_policy?: "restore" | "repair"; world_id?: string;
+};
 type ClientCancel = { type: "cancel" };
 type ClientPing = { type: "ping" };
-type ClientMessage = ClientPrompt | ClientModify | ClientCancel | ClientPing;
+// generate skeleton first, then regions and buildings in parallel; for islands too big for one translate call.
+// concurrency (a positive whole number) caps the model calls the job makes at once, up to the server's maximum
+type ClientPromptHierarchical = { type: "prompt_hierarchical"; prompt: string; concurrency?: number; world_id?: string };
+// join (or create) a shared design session, optionally with a display name for the other participants;
+// leave goes back to a private session
+type ClientJoin = { type: "join"; session: string; name?: string };
+type ClientLeave = { type: "leave" };
+// step the session's island back or forward through its results, or list them
+type ClientUndo = { type: "undo" };
+type ClientRedo = { type: "redo" };
+type ClientHistory = { type: "history" };
+// the route graph of a stored island, an inline one, or (with neither) the session's current island
+type ClientExport = { type: "export"; format: GraphFormat; island_id?: string; version?: number; originalJson?: Island };
+// a balance report for an island, chosen the same way as for export. With fix, any issues found are handed to
+// a modify job as its prompt (locked applies to it as to modify)
+type ClientAnalyze = {
+  type: "analyze"; island_id?: string; version?: number; originalJson?: Island;
+  thresholds?: Partial<BalanceThresholds>; fix?: boolean; locked?: string[];
+};
+// one value of any object type in the schema (typeName: "Building", "Human", "Artifact"...). An island (chosen as for
+// export, and only looked up if one is named or there's a path) and the place in it given by path (a JSON pointer,
+// e.g. "/regions/2/buildings/-") are summarized for the prompt, along with any free-text context. With insert,
+// the value is added at path and the island is saved as a new version
+type ClientGenerate = {
+  type: "generate"; typeName: string; prompt: string; context?: string;
+  island_id?: string; version?: number; originalJson?: Island; path?: string; insert?: boolean;
+};
+// a dialogue tree for one of an island's humans (human_name), written from who they are and the building, region and
+// island they live in. The island is chosen as for export; prompt optionally steers what the conversation is about.
+// The dialogue comes back as an entity event, and with format, also as an Ink or Yarn script in an export event
+type ClientDialogue = {
+  type: "dialogue"; human_name: string; prompt?: string; format?: DialogueFormat;
+  island_id?: string; version?: number; originalJson?: Island;
+};
+type ClientMessage = ClientPrompt | ClientModify | ClientCancel | ClientPing | ClientPromptHierarchical | ClientJoin | ClientLeave | ClientUndo | ClientRedo | ClientHistory | ClientExport | ClientAnalyze | ClientGenerate | ClientDialogue;
 
-type stageName = "received" | "translating" | "modifying" | "validating" | "repair" | "idle";
+type stageName = "queued" | "received" | "translating" | "generating" | "modifying" | "validating" | "layout" | "repair" | "idle";
 // Event protocol (server -> client)
 // Here we define what the server can send back to the client
 type EvStatus = {
@@ -90,40 +551,185 @@ type EvStatus = {
   stage: stageName;
   message: string;
   attempt?: number;
+  local_fixes?: string[];         // repair stage: fixes applied locally, without a model call
+  position?: number;              // queued stage: place in the job queue, 1 = next to run
+  queue_length?: number;          // queued stage: jobs waiting in the queue
+  moved?: string[];               // layout stage: regions whose coordinates or altitude changed
+  unsatisfied?: string[];         // layout stage: layout problems the solver couldn't fix
 };
 
 // core result will be of type Island, but we use unknown here to keep it flexible
-type EvResult = { event: "result"; data: unknown; is_modify?: boolean };
+// island_id/version identify where the result was saved in the island store
+// restored_locks lists locked pointers the model changed and the server put back
+// history is set when the result is the session's island after an undo or redo
+type EvResult = { event: "result"; data: unknown; is_modify?: boolean; island_id?: string; version?: number; restored_locks?: string[]; history?: "undo" | "redo" };
 
 // a partial result has some non-compliance with the schema but is likely useful
-type EvResultPartial = { event: "result_partial"; data: unknown; message: string ; is_modify?: boolean};
+type EvResultPartial = { event: "result_partial"; data: unknown; message: string ; is_modify?: boolean; island_id?: string; version?: number; restored_locks?: string[] };
+
+// a successful patch-mode modify: the changes relative to the island the client sent (or base_version of island_id)
+type EvResultPatch = { event: "result_patch"; patch: JsonPatchOperation[]; is_modify: true; island_id?: string; version?: number; base_version?: number; restored_locks?: string[] };
 
 type EvError = { event: "error"; message: string };
 type EvDone = { event: "done"; ok: boolean };
 type EvPong = { event: "pong"; t: number };
 
-type ServerEvent = EvStatus | EvResult | EvResultPartial | EvError | EvDone | EvPong;
+// progressive events while a translation streams in. these are previews: the final result still
+// goes through validation and repair, and arrives as "result" or "result_partial"
+type EvIslandHeader = { event: "island_header"; data: Partial<Island> };
+type EvRegionAdded = { event: "region_added"; index: number; data: unknown };
+type EvBuildingAdded = { event: "building_added"; region_index: number; index: number; data: unknown };
 
-// Per-connection runtime state
-type SocketState = {
-  busy: boolean;                  // prevent concurrent jobs on one socket
-  canceled: boolean;              // allows client-side cancel, although we can't truly abort the LLM call
+// progress of one part (skeleton, region, building) of a hierarchical generation
+type EvPartProgress = { event: "part_progress"; part: string; state: "started" | "done" | "partial" | "failed"; completed: number; total: number; message?: string };
+
+// who is in the session; sent to every participant when someone joins or leaves. `you` is the recipient
+type EvSession = { event: "session"; session_id: string; you: string; participants: Participant[]; active_job?: { issued_by: Participant; stage: stageName } };
+
+// the session's undo history, oldest first; sent on request and to everyone after an undo or redo
+type EvHistory = { event: "history"; session_id: string; entries: HistoryEntryInfo[]; can_undo: boolean; can_redo: boolean };
+
+// an exported route graph, in the requested format, or a dialogue job's dialogue as an Ink or Yarn script
+type EvExport = { event: "export"; format: GraphFormat | DialogueFormat; content: string; island_id?: string; version?: number };
+
+// a gameplay balance report, sent to whoever asked for it
+type EvBalance = { event: "balance"; report: BalanceReport; island_id?: string; version?: number };
+
+// a value generated by a generate or dialogue job. partial (with message) if it's still invalid after repair; such a value
+// isn't inserted. path is where it's being inserted; the island it went into follows as a result event
+type EvEntity = { event: "entity"; type_name: string; data: unknown; partial?: boolean; message?: string; path?: string };
+
+type ServerEvent = EvStatus | EvResult | EvResultPartial | EvResultPatch | EvError | EvDone | EvPong | EvIslandHeader | EvRegionAdded | EvBuildingAdded | EvPartProgress | EvSession | EvHistory | EvExport | EvBalance | EvEntity;
+
+// events from a job are broadcast to the whole session, tagged with the participant who issued the job
+type JobEvent = ServerEvent & { issued_by?: Participant };
+
+// A participant as other participants see them
+type Participant = { participant_id: string; name?: string };
+
+// A design session: the sockets working together on one island. Every socket starts in a private session
+// of its own (its id is the socket's participant id) and can join a named one to share it. Job events go to
+// every participant, and the session runs one job at a time
+type Session = {
+  id: string;
+  participants: Set<SocketState>;
+  busy: boolean;                  // one job per session (queued or running)
+  job?: JobHandle;                // the session's queued or running job; cancel() aborts its model calls
+  issuedBy?: Participant;         // who started the current job
   jobName: EvStatus["stage"];     // optional job name for logging
   lastJobId: number;              // monotonic id for in-flight job
+  history: IslandHistory;         // every result the session's jobs produced, for undo/redo
+};
+
+// Per-connection runtime state
+type SocketState = {
+  ws: WebSocket;
+  participant: Participant;
+  clientId: string;               // fairness key for the job queue
+  session: Session;
   heartbeat?: NodeJS.Timeout;
 };
 
-function send(ws: WebSocket, payload: ServerEvent) {
+// What started a job, for logs and metrics: the client message type (or analyze, for a balance fix)
+type JobKind = "prompt" | "prompt_hierarchical" | "modify" | "analyze" | "generate" | "dialogue";
+type JobOutcome = "result" | "partial" | "error" | "timeout" | "canceled";
+
+// A job in progress and where its events go, and what it has cost so far
+type JobContext = {
+  session: Session;
+  issuedBy: Participant;
+  id: number;                       // server-wide, unlike the session's job ids; in every log line about the job
+  kind: JobKind;
+  prompt: string;
+  log: Logger;
+  accepted: number;                 // Date.now() when the job was queued
+  stage: { name: stageName; since: number };
+  outcome?: JobOutcome;             // set by the result, result_partial, entity or error event
+  repairs: number;
+  modelCalls: number;
+  tokens: { prompt: number; completion: number };
+};
+
+// How to run a modify job
+type ModifyOptions = {
+  islandId?: string;                // stored island being modified; the result becomes its next version
+  baseVersion?: number;             // the version previousJson came from
+  mode: "full" | "patch";
+  path?: string;                    // JSON pointer: only regenerate this subtree
+  locked: string[];                 // JSON pointers that must not change
+  lockPolicy: "restore" | "repair";
+  world?: WorldContext;
+};
+
+// How to run a generate job
+type GenerateOptions = {
+  entity: EntitySubject;
+  preamble?: string;
+  insert?: { target: InsertTarget; island: Island; island_id?: string };
+  script?: { format: DialogueFormat; speaker: Speaker };  // dialogue jobs: also send the dialogue as a script
+};
+
+// A single value of a schema type other than Island, and the translator that generates and checks it
+type EntitySubject = {
+  typeName: string;
+  translator: Mythographer<object>;
+};
+
+// The world a job's island belongs to, and the preamble describing it
+type WorldContext = {
+  world_id: string;
+  preamble: string;
+};
+
+// Designer locks for a modify job; every lock that had to be put back is collected in restored
+type LockState = {
+  previous: Island;
+  pointers: string[];
+  restored: Set<string>;
+};
+
+// Where a job's result gets saved: a new version of island_id, or a new island if there's no id yet
+type SaveTarget = {
+  island_id?: string;
+  world_id?: string;                // the island is added to this world once saved
+  source: VersionSource;
+  prompt: string;
+};
+
+function send(ws: WebSocket, payload: JobEvent) {
   if (ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(payload));
   }
 }
 
-function sendStatus(ws: WebSocket, state: SocketState, stage: stageName, message: string, data?: any) {
+/** Sends an event to every participant of a session */
+function broadcast(session: Session, payload: JobEvent) {
+  const text = JSON.stringify(payload);
+  for (const participant of session.participants) {
+    if (participant.ws.readyState === WebSocket.OPEN) {
+      participant.ws.send(text);
+    }
+  }
+}
+
+/** Sends a job's event to its session, tagged with who issued the job. Results and errors decide the job's outcome */
+function emit(job: JobContext, payload: ServerEvent) {
+  broadcast(job.session, { ...payload, issued_by: job.issuedBy });
+  if (payload.event === "result" || payload.event === "result_patch") job.outcome = "result";
+  if (payload.event === "result_partial") job.outcome = "partial";
+  // an entity that isn't being inserted is the job's result; one that is waits for the island's
+  if (payload.event === "entity" && (payload.partial || payload.path === undefined)) job.outcome = payload.partial ? "partial" : "result";
+  if (payload.event === "error" && job.outcome === undefined) {
+    job.outcome = payload.message.includes(TIMEOUT_MESSAGE) ? "timeout" : "error";
+  }
+}
+
+function sendStatus(job: JobContext, stage: stageName, message: string, data?: any) {
   const event = "status";
-  send(ws, { event, stage, message, ...data });
-  console.log(`Sent status: [${stage}] ${message}`);
-  state.jobName = stage;
+  emit(job, { event, stage, message, ...data });
+  job.log.info(message, { stage });
+  job.session.jobName = stage;
+  enterStage(job, stage);
 }
 
 // =============================================
@@ -134,31 +740,33 @@ function sendStatus(ws: WebSocket, state: SocketState, stage: stageName, message
  * Runs a translation job end-to-end:
  *  1. Checks for cancellation or staleness
  *  2. Marks the worker busy
- *  3. Calls translator.translate(prompt)
+ *  3. Calls translator.translate(prompt), streaming regions and buildings to the client as they arrive
  *  4. Validates and attempts repair if needed
  *  5. Reports progress and results over WebSocket
  */
 async function runJob(
-  ws: WebSocket,
-  state: SocketState,
+  job: JobContext,
   jobId: number,
-  prompt: string
+  signal: AbortSignal,
+  prompt: string,
+  world?: WorldContext,
 ): Promise<void> {
-  const isStale = makeStaleChecker(state, jobId);
+  const isStale = makeStaleChecker(job.session, jobId, signal);
 
   try {
     if (isStale()) return;
-    setBusy(state, true);
-    state.jobName = "translating";
+    setBusy(job.session, true);
+    job.session.jobName = "translating";
 
-    sendStatus(ws, state, "received", "Prompt received.");
-    sendStatus(ws, state, "translating", "Starting translation to schema...");
-    console.info(`[runJob:${jobId}] Starting translation for prompt...`);
+    sendStatus(job, "received", "Prompt received.");
+    sendStatus(job, "translating", "Starting translation to schema...");
+    job.log.debug("Starting translation", { session_job: jobId });
 
     // Main translation step — may take minutes
     let translation_result: Result<Island>;
     try {
-      translation_result = await withTimeout(translator.translate(prompt), 180_000);
+      const onChunk = createStreamReporter(job, isStale);
+      translation_result = await withTimeout(s => translator.translate(prompt, world?.preamble, { onChunk, signal: s }), 180_000, signal);
     } catch (err: any) {
       throw new Error(`Translation failed: ${err.message}`);
     }
@@ -168,48 +776,66 @@ async function runJob(
 
     // Bail early if the model failed to produce any valid JSON
     if (!translation_result.success) {
-      sendError(ws, translation_result.message);
+      sendError(job, translation_result.message);
       return;
     }
 
     // Proceed to schema validation & repair
-    let finalResult = await withTimeout(validateAndRepair(ws, state, jobId, translation_result.data, false), 180_000);
+    const target: SaveTarget = { ...worldTarget(world), source: "prompt", prompt };
+    let finalResult = await withTimeout(s => validateAndRepair(job, jobId, s, translation_result.data, false, target), 180_000, signal);
     if(finalResult.success === true) {
-      send(ws, { event: "result", data: finalResult.data });
+      const saved = await recordResult(job, target, finalResult.data, false);
+      emit(job, { event: "result", data: finalResult.data, ...saved });
     }
   } catch (err: any) {
-    sendError(ws, err.message);
+    sendError(job, err.message);
   } finally {
     // Always clean up so the system can accept new jobs
-    setBusy(state, false);
-    state.jobName = "idle";
-    send(ws, { event: "done", ok: !state.canceled });
+    setBusy(job.session, false);
+    job.session.jobName = "idle";
+    emit(job, { event: "done", ok: !signal.aborted });
   }
 }
 
 
 async function runModificationJob(
-  ws: WebSocket,
-  state: SocketState,
+  job: JobContext,
   jobId: number,
+  signal: AbortSignal,
   prompt: string,
   previousJson: Island,
+  options: ModifyOptions,
 ): Promise<void> {
-  const isStale = makeStaleChecker(state, jobId);
+  const isStale = makeStaleChecker(job.session, jobId, signal);
 
   try {
     if (isStale()) return;
-    setBusy(state, true);
-    state.jobName = "modifying";
+    setBusy(job.session, true);
+    job.session.jobName = "modifying";
+
+    sendStatus(job, "received", "Prompt received.");
+    sendStatus(job, "modifying", "Starting modification to schema...");
+    job.log.debug("Starting modification", { session_job: jobId, mode: options.mode, path: options.path, locked: options.locked });
 
-    sendStatus(ws, state, "received", "Prompt received.");
-    sendStatus(ws, state, "modifying", "Starting modification to schema...");
-    console.info(`[runJob:${jobId}] Starting modification for prompt...`);
+    const locks: LockState | undefined = options.locked.length > 0
+      ? { previous: previousJson, pointers: options.locked, restored: new Set() }
+      : undefined;
+    const lockPreamble = locks ? describeLocks(previousJson, locks.pointers) : undefined;
+    const preamble = [options.world?.preamble, lockPreamble].filter(p => p !== undefined).join("\n") || undefined;
 
     // Main translation step — may take minutes
     let translation_result: Result<Island>;
     try {
-      translation_result = await withTimeout(translator.modify(previousJson, prompt), 180_000);
+      if (options.path !== undefined) {
+        const subtreePath = options.path;
+        translation_result = await withTimeout(s => regenerateSubtree(job, s, previousJson, subtreePath, prompt, preamble), 180_000, signal);
+      } else if (options.mode === "patch") {
+        // the model only describes the changes, so untouched content is preserved by construction
+        const patch_result = await withTimeout(s => translator.modifyPatch(previousJson, prompt, preamble, { signal: s }), 180_000, signal);
+        translation_result = patch_result.success ? applyPatch(previousJson, patch_result.data) : patch_result;
+      } else {
+        translation_result = await withTimeout(s => translator.modify(previousJson, prompt, preamble, { signal: s }), 180_000, signal);
+      }
     } catch (err: any) {
       throw new Error(`Modification failed: ${err.message}`);
     }
@@ -219,135 +845,829 @@ async function runModificationJob(
 
     // Bail early if the model failed to produce any valid JSON
     if (!translation_result.success) {
-      sendError(ws, translation_result.message);
+      sendError(job, translation_result.message);
       return;
     }
 
+    // Check the locks: optionally give the model a chance to fix its own violations, then restore the rest
+    let candidate = translation_result.data;
+    if (locks) {
+      const violations = findLockViolations(previousJson, candidate, locks.pointers);
+      if (violations.length > 0 && options.lockPolicy === "repair") {
+        sendStatus(job, "repair", `Locked fields were changed: ${violations.join(", ")}`);
+        countRepair(job, "locks");
+        const lockErrors = describeLockViolations(previousJson, violations);
+        const repaired = await withTimeout(s => translator.repair(candidate, lockErrors, lockPreamble, { signal: s }), 180_000, signal);
+        if (isStale()) return;
+        if (repaired.success) candidate = repaired.data;
+      }
+      candidate = enforceLocks(locks, candidate);
+    }
+
     // Proceed to schema validation & repair
-    let finalResult = await(withTimeout(validateAndRepair(ws, state, jobId, translation_result.data, true), 180_000));
+    const target: SaveTarget = { ...(options.islandId !== undefined ? { island_id: options.islandId } : {}), ...worldTarget(options.world), source: "modify", prompt };
+    let finalResult = await withTimeout(s => validateAndRepair(job, jobId, s, candidate, true, target, locks, undefined, previousJson), 180_000, signal);
     if(finalResult.success === true) {
-      send(ws, { event: "result", data: finalResult.data, is_modify: true });
+      const saved = await recordResult(job, target, finalResult.data, false);
+      if (options.mode === "patch") {
+        // diff against the original rather than echoing the model's patch, so repairs are included too
+        const patch = diffJson(previousJson, finalResult.data);
+        const base = options.baseVersion !== undefined ? { base_version: options.baseVersion } : {};
+        emit(job, { event: "result_patch", patch, is_modify: true, ...saved, ...base, ...lockReport(locks) });
+      } else {
+        emit(job, { event: "result", data: finalResult.data, is_modify: true, ...saved, ...lockReport(locks) });
+      }
     }
   } catch (err: any) {
-    sendError(ws, err.message);
+    sendError(job, err.message);
   } finally {
     // Always clean up so the system can accept new jobs
-    setBusy(state, false);
-    state.jobName = "idle";
-    send(ws, { event: "done", ok: !state.canceled });
+    setBusy(job.session, false);
+    job.session.jobName = "idle";
+    emit(job, { event: "done", ok: !signal.aborted });
+  }
+}
+
+
+/**
+ * Regenerates only the subtree at `pointer`. The model sees the subtree plus a compact summary of the rest of
+ * the island, the result is validated (and repaired) against the subtree's own type, then spliced back in.
+ * The caller validates the whole island afterwards as usual.
+ */
+async function regenerateSubtree(
+  job: JobContext,
+  signal: AbortSignal,
+  previousJson: Island,
+  pointer: string,
+  prompt: string,
+  lockPreamble?: string,
+): Promise<Result<Island>> {
+  const target = resolveSubtreeTarget(schemaModel, viewSchema, "Island", pointer);
+  if (!target.success) return target;
+
+  const current = getAtPointer(previousJson, pointer);
+  if (current === undefined && target.data.wrap !== "items") {
+    return { success: false, message: `Nothing to regenerate at path "${pointer}".` };
+  }
+
+  const subtreeTranslator = getSubtreeTranslator(target.data);
+  const context = describeSubtreeContext(previousJson, target.data) + (lockPreamble ?? "");
+  sendStatus(job, "modifying", `Regenerating ${pointer} (${target.data.declaredType})...`);
+
+  const modified = await subtreeTranslator.modify(wrapSubtree(target.data, current), prompt, context, { signal });
+  if (!modified.success) return modified;
+
+  sendStatus(job, "validating", `Validating ${pointer} as ${target.data.declaredType}`);
+  const checked = await repairUntilValid(subtreeTranslator, modified.data, 2, context, { signal });
+  if (!checked.valid) {
+    job.log.warn("Subtree still invalid after repair", { path: pointer, error: checked.message });
+  }
+
+  const value = unwrapSubtree(target.data, checked.data);
+  return applyPatch(previousJson, [{ op: current === undefined ? "add" : "replace", path: pointer, value }]);
+}
+
+/**
+ * Runs a hierarchical generation job: skeleton, then regions and buildings concurrently,
+ * then validation and repair of the stitched island. Reports each part as part_progress events.
+ */
+async function runHierarchicalJob(
+  job: JobContext,
+  jobId: number,
+  signal: AbortSignal,
+  prompt: string,
+  concurrency: number,
+  world?: WorldContext,
+): Promise<void> {
+  const isStale = makeStaleChecker(job.session, jobId, signal);
+
+  try {
+    if (isStale()) return;
+    setBusy(job.session, true);
+    job.session.jobName = "generating";
+
+    sendStatus(job, "received", "Prompt received.");
+    sendStatus(job, "generating", "Generating island skeleton, then regions and buildings...");
+    job.log.debug("Starting hierarchical generation", { session_job: jobId, concurrency });
+
+    // Many model calls — allow more time than a single translation
+    let generation_result: Result<Island>;
+    try {
+      generation_result = await withTimeout(s => generateIslandHierarchically(prompt, hierarchicalTranslators, {
+        concurrency,
+        isStale,
+        signal: s,
+        ...(world ? { preamble: world.preamble } : {}),
+        onProgress: progress => {
+          if (!isStale()) emit(job, { event: "part_progress", ...progress });
+        },
+      }), 900_000, signal);
+    } catch (err: any) {
+      throw new Error(`Generation failed: ${err.message}`);
+    }
+
+    if (isStale()) return;
+
+    if (!generation_result.success) {
+      sendError(job, generation_result.message);
+      return;
+    }
+
+    // Validate the stitched island as a whole; cross-region problems only show up here
+    const target: SaveTarget = { ...worldTarget(world), source: "prompt", prompt };
+    let finalResult = await withTimeout(s => validateAndRepair(job, jobId, s, generation_result.data, false, target), 180_000, signal);
+    if(finalResult.success === true) {
+      const saved = await recordResult(job, target, finalResult.data, false);
+      emit(job, { event: "result", data: finalResult.data, ...saved });
+    }
+  } catch (err: any) {
+    sendError(job, err.message);
+  } finally {
+    setBusy(job.session, false);
+    job.session.jobName = "idle";
+    emit(job, { event: "done", ok: !signal.aborted });
+  }
+}
+
+
+/**
+ * Runs a generate job: one value of a schema type, validated and repaired against that type, then optionally
+ * inserted into an island, which is validated as a whole and saved like a modify.
+ */
+async function runGenerateJob(
+  job: JobContext,
+  jobId: number,
+  signal: AbortSignal,
+  prompt: string,
+  options: GenerateOptions,
+): Promise<void> {
+  const isStale = makeStaleChecker(job.session, jobId, signal);
+  const { entity, insert } = options;
+
+  try {
+    if (isStale()) return;
+    setBusy(job.session, true);
+    job.session.jobName = "generating";
+
+    sendStatus(job, "received", "Prompt received.");
+    sendStatus(job, "generating", `Generating ${entity.typeName}...`);
+
+    let generation_result: Result<object>;
+    try {
+      generation_result = await withTimeout(s => entity.translator.translate(prompt, options.preamble, { signal: s }), 180_000, signal);
+    } catch (err: any) {
+      throw new Error(`Generation failed: ${err.message}`);
+    }
+
+    if (isStale()) return;
+
+    if (!generation_result.success) {
+      sendError(job, generation_result.message);
+      return;
+    }
+
+    // The value on its own first; a partial value has been sent by the loop, and isn't inserted
+    const target: SaveTarget = { ...(insert?.island_id !== undefined ? { island_id: insert.island_id } : {}), source: "generate", prompt };
+    const generated = await withTimeout(s => validateAndRepair(job, jobId, s, generation_result.data, false, target, undefined, entity), 180_000, signal);
+    if (!generated.success) return;
+    emit(job, { event: "entity", type_name: entity.typeName, data: generated.data, ...(insert ? { path: insert.target.pointer } : {}) });
+    if (options.script) {
+      const { format, speaker } = options.script;
+      emit(job, { event: "export", format, content: exportDialogue(generated.data as Dialogue, format, speaker.being) });
+    }
+    if (!insert || isStale()) return;
+
+    // Then the island it went into, since a new name or route can clash with the rest
+    const ops = insertOperations(insert.island, insert.target, generated.data);
+    const inserted = ops.success ? applyPatch(insert.island, ops.data) : ops;
+    if (!inserted.success) {
+      sendError(job, `Could not insert the ${entity.typeName}: ${inserted.message}`);
+      return;
+    }
+    const finalResult = await withTimeout(s => validateAndRepair(job, jobId, s, inserted.data, true, target, undefined, undefined, insert.island), 180_000, signal);
+    if (finalResult.success === true) {
+      const saved = await recordResult(job, target, finalResult.data, false);
+      emit(job, { event: "result", data: finalResult.data, is_modify: true, ...saved });
+    }
+  } catch (err: any) {
+    sendError(job, err.message);
+  } finally {
+    setBusy(job.session, false);
+    job.session.jobName = "idle";
+    emit(job, { event: "done", ok: !signal.aborted });
   }
 }
 
 
+// =============================================
+// 🔷 Streaming previews
+// =============================================
 
+/**
+ * Returns an onChunk callback that incrementally parses the streamed island and sends
+ * island_header, building_added and region_added events as each piece becomes complete.
+ * The header goes out just before the first region (or when the document ends, if there are none).
+ */
+function createStreamReporter(job: JobContext, isStale: () => boolean): (text: string) => void {
+  const header: Record<string, unknown> = {};
+  let headerSent = false;
+
+  const sendHeader = () => {
+    if (headerSent) return;
+    headerSent = true;
+    emit(job, { event: "island_header", data: header as Partial<Island> });
+  };
+
+  const parser = createIncrementalJsonParser((path: JsonPath, value: unknown) => {
+    if (path.length === 1 && path[0] !== "regions") {
+      header[path[0]] = value;
+    } else if (path.length === 2 && path[0] === "regions") {
+      sendHeader();
+      emit(job, { event: "region_added", index: path[1] as number, data: value });
+    } else if (path.length === 4 && path[0] === "regions" && path[2] === "buildings") {
+      sendHeader();
+      emit(job, { event: "building_added", region_index: path[1] as number, index: path[3] as number, data: value });
+    } else if (path.length === 0) {
+      sendHeader();
+    }
+  });
+
+  return (text: string) => {
+    if (isStale()) return;
+    parser.write(text);
+  };
+}
 
 // =============================================
 // 🔷 Validation + Repair loop
 // =============================================
 
 /**
- * Ensures translated JSON conforms to schema.
+ * Ensures translated JSON conforms to schema and passes the semantic island checks.
  * Tries up to 3 repair attempts using translator.repair().
- * Sends intermediate updates and partial results when repair fails.
+ * Sends intermediate updates and partial results when repair fails; partial results are saved to `target`.
+ * With `locks`, the model is reminded of them on every repair and any locked value it changes is restored.
+ * With `entity`, it checks a single value of another schema type instead, with that type's translator: there's
+ * no layout, and a partial result is sent as a partial entity event rather than saved.
+ * With `base`, the island a modification started from, only regions the modification added or moved are laid out.
  */
-async function validateAndRepair(
-  ws: WebSocket,
-  state: SocketState,
+async function validateAndRepair<T extends object = Island>(
+  job: JobContext,
   jobId: number,
-  json: Island,
+  signal: AbortSignal,
+  json: T,
   is_modify: boolean,
-): Promise<Result<Island>> {
-  const isStale = makeStaleChecker(state, jobId);
+  target: SaveTarget,
+  locks?: LockState,
+  entity?: EntitySubject,
+  base?: Island,
+): Promise<Result<T>> {
+  const isStale = makeStaleChecker(job.session, jobId, signal);
+  const checker = (entity?.translator ?? translator) as unknown as Mythographer<T>;
   let current = json;
   const maxAttempts = 3;
 
+  const sendPartial = async (message: string) => {
+    if (entity) {
+      emit(job, { event: "entity", type_name: entity.typeName, data: current, partial: true, message });
+      return;
+    }
+    const saved = await recordResult(job, target, current as unknown as Island, true);
+    emit(job, { event: "result_partial", data: current, message, is_modify: is_modify, ...saved, ...lockReport(locks) });
+  };
+
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     if (isStale()) return { success: false, message: "Job stale or canceled during validation." };
 
-    sendStatus(ws, state, "validating", `Validating schema (attempt ${attempt})`);
+    sendStatus(job, "validating", entity ? `Validating ${entity.typeName} (attempt ${attempt})` : `Validating schema and world graph (attempt ${attempt})`);
+
+    // schema first, then routes/uniqueness/reachability; either kind of error goes to the repair prompt
+    let validation = checker.json_is_valid(current);
+
+    // trivial errors (enum casing, "12" for 12, ...) are fixed locally; only what's left goes to the model
+    if (!validation.success) {
+      const local = checker.repairLocally(current);
+      if (local.fixes.length > 0) {
+        job.log.debug("Local fixes", { fixes: local.fixes });
+        localFixes.inc({}, local.fixes.length);
+        sendStatus(job, "repair", `Applied ${local.fixes.length} local fixes`, { local_fixes: local.fixes });
+        current = enforceLocks(locks, local.data);
+        validation = checker.json_is_valid(current);
+      }
+    }
 
-    const validation = translator.json_is_schema_valid(current);
+    // Lay the regions out to agree with their sizes and routes. What the layout can't satisfy means the routes
+    // contradict each other (or a pinned region), which is worth a repair but not worth failing the job over
+    // A modification only lays out the regions it added or moved: the rest stay put, pinned like locked regions
+    if (validation.success && !entity) {
+      const island = current as unknown as Island;
+      const pinned = [...pinnedRegions(island, locks?.pointers ?? []), ...(base ? unmovedRegions(base, island) : [])];
+      const layout = layoutIsland(island, { pinned });
+      current = layout.data as unknown as T;
+      // layout problems the island already had before the modification aren't the modification's to repair
+      const known = new Set(base ? findLayoutProblems(base, new Set(pinned)) : []);
+      const unsolved = layout.unsatisfied.filter(problem => !known.has(problem));
+      if (layout.moved.length > 0 || layout.unsatisfied.length > 0) {
+        sendStatus(job, "layout", `Laid out ${layout.moved.length} regions` +
+          (layout.unsatisfied.length > 0 ? `; ${layout.unsatisfied.length} layout problems left` : ""),
+          { moved: layout.moved, unsatisfied: layout.unsatisfied });
+      }
+      if (unsolved.length > 0 && attempt < maxAttempts) {
+        validation = { success: false, message: unsolved.join("\n") };
+      }
+    }
 
     // ✅ Schema compliance achieved
     if (validation.success) {
-      console.info(`[validate:${jobId}] Schema valid on attempt ${attempt}`);
-      console.info(`returning good result: \n ${JSON.stringify(current, null, 2)}`);
+      job.log.info(entity ? `${entity.typeName} valid` : "Schema and world graph valid", { session_job: jobId, attempt });
       return { success: true, data: current };
     }
 
     // ❌ Validation failed; handle depending on attempt count
     if (attempt === maxAttempts) {
-      send(ws, {
-        event: "result_partial",
-        data: current,
-        message: `Max repair attempts reached. Last error: ${validation.message}`,
-        is_modify: is_modify
-      });
+      await sendPartial(`Max repair attempts reached. Last error: ${validation.message}`);
       break;
     }
 
     // Attempt automated repair
-    sendStatus(ws, state, "repair", `Repairing (${attempt}/3): ${validation.message}`);
+    sendStatus(job, "repair", `Repairing (${attempt}/3): ${validation.message}`);
+    countRepair(job, "validation");
 
-    let repair_result: Result<Island>;
+    let repair_result: Result<T>;
     try {
-      repair_result = await (withTimeout (translator.repair(current, validation.message), 180_000));
+      const lockPreamble = locks ? describeLocks(locks.previous, locks.pointers) : undefined;
+      const errors = validation.message;
+      repair_result = await withTimeout(s => checker.repair(current, errors, lockPreamble, { signal: s }), 180_000, signal);
 
       if (!repair_result.success) {
         // Catastrophic repair failure (no JSON at all) - return last valid json, which has schema errors but is coherent otherwise
-        send(ws, {
-          event: "result_partial",
-          data: current,
-          message: `Repair ${attempt} failed: ${repair_result.message}`,
-          is_modify: is_modify
-        });
+        await sendPartial(`Repair ${attempt} failed: ${repair_result.message}`);
         break;
       }
 
-      // Store the repaired JSON and loop to re-validate
-      current = repair_result.data;
+      // Store the repaired JSON (minus any changes to locked fields) and loop to re-validate
+      current = enforceLocks(locks, repair_result.data);
       await sleep(500); // small backoff before re-validation
     } catch (err: any) {
-      send(ws, { event: "error", message: `Repair ${attempt} threw: ${err.message}` });
+      emit(job, { event: "error", message: `Repair ${attempt} threw: ${err.message}` });
       break;
     }
   }
   return { success: false, message: "Validation and repair loop exited unexpectedly."};
 }
 
+// =============================================
+// 🔷 Locks
+// =============================================
+
+/** Restores any locked values the model changed, remembering which ones */
+function enforceLocks<T extends object>(locks: LockState | undefined, data: T): T {
+  if (!locks) return data;
+  const { data: restoredData, restored, unrestorable } = restoreLocks(locks.previous as object as T, data, locks.pointers);
+  restored.forEach(p => locks.restored.add(p));
+  if (unrestorable.length > 0) {
+    jobLog().warn("Could not restore locks: the containing object no longer exists", { pointers: unrestorable });
+  }
+  return restoredData;
+}
+
+/** The restored_locks field for a result event, if any locks were restored */
+function lockReport(locks: LockState | undefined): { restored_locks?: string[] } {
+  return locks && locks.restored.size > 0 ? { restored_locks: [...locks.restored] } : {};
+}
+
+// =============================================
+// 🔷 Persistence
+// =============================================
+
+/**
+ * Saves a job result to the island store and records it in the session's undo history.
+ */
+async function recordResult(job: JobContext, target: SaveTarget, data: Island, partial: boolean): Promise<{ island_id?: string; version?: number }> {
+  const saved = await saveIsland(target, data, partial);
+  job.session.history.record({
+    prompt: target.prompt,
+    timestamp: new Date().toISOString(),
+    source: target.source === "modify" || target.source === "generate" ? "modify" : "prompt",
+    outcome: partial ? "result_partial" : "result",
+    ...saved,
+    data,
+  });
+  return saved;
+}
+
+/**
+ * Saves a job result to the island store, as a new version of target.island_id or as a new island.
+ * A storage failure is logged but doesn't fail the job; the client still gets its result, just without ids.
+ */
+async function saveIsland(target: SaveTarget, data: Island, partial: boolean): Promise<{ island_id?: string; version?: number }> {
+  try {
+    const info = { source: target.source, prompt: target.prompt, partial };
+    let saved: { island_id: string; version: number } | undefined;
+    if (target.island_id !== undefined) {
+      const version = await store.addVersion(target.island_id, data, info);
+      if (version) saved = { island_id: target.island_id, version: version.version };
+    }
+    if (!saved) {
+      const created = await store.create(data, info);
+      target.island_id = created.id;
+      saved = { island_id: created.id, version: created.version.version };
+    }
+    if (target.world_id !== undefined) {
+      await worldStore.addIsland(target.world_id, saved.island_id);
+    }
+    return saved;
+  } catch (err: any) {
+    jobLog().error("Could not save island", { island_id: target.island_id, error: err.message });
+    return {};
+  }
+}
+
+/**
+ * Builds a World from a world's parts and the latest version of each of its islands, and validates it.
+ * Fails if an island is missing or the world doesn't hang together. The islands themselves aren't schema
+ * checked here: a partial result is still a member of its world, and its own problems are the island's to fix.
+ */
+async function assembleWorld(info: WorldInfo): Promise<Result<World>> {
+  if (!Array.isArray(info.island_ids)) {
+    return { success: false, message: "'island_ids' must be an array of island ids." };
+  }
+  const islands: Island[] = [];
+  for (const id of info.island_ids) {
+    const version = await store.getVersion(id);
+    if (!version) return { success: false, message: `Island '${id}' not found.` };
+    islands.push(version.data);
+  }
+  const parts = { world_name: info.world_name, canon: info.canon, islands: [], island_routes: info.island_routes };
+  const schemaResult = worldValidator.validate(parts);
+  return schemaResult.success ? validateWorld({ ...schemaResult.data, islands }) : schemaResult;
+}
+
+/**
+ * The world context for a job: the world's preamble for the given island (or a new one).
+ * Resolves to undefined when there's no world_id; fails if the world doesn't exist.
+ */
+async function loadWorldContext(worldId: string | undefined, islandName?: string): Promise<Result<WorldContext | undefined>> {
+  if (worldId === undefined) return { success: true, data: undefined };
+  const record = await worldStore.get(worldId);
+  if (!record) return { success: false, message: `World '${worldId}' not found.` };
+  const islands: Island[] = [];
+  for (const id of record.island_ids) {
+    const version = await store.getVersion(id);
+    if (version) islands.push(version.data);
+  }
+  const world: World = { world_name: record.world_name, canon: record.canon, islands, island_routes: record.island_routes };
+  return { success: true, data: { world_id: worldId, preamble: describeWorldContext(world, islandName) } };
+}
+
+/**
+ * The island a request is about: a stored island (island_id, optionally a version), one sent inline, or with
+ * neither, the session's current island. An inline island is upgraded and checked against the schema, so what
+ * the caller gets is an Island whatever the client sent.
+ */
+async function findIsland(state: SocketState, ref: { island_id?: string; version?: number; originalJson?: Island }):
+  Promise<Result<{ island: Island; island_id?: string; version?: number }>> {
+  if (ref.island_id !== undefined) {
+    const stored = await store.getVersion(ref.island_id, ref.version);
+    if (!stored) {
+      return { success: false, message: `Island '${ref.island_id}'${ref.version !== undefined ? ` version ${ref.version}` : ""} not found.` };
+    }
+    return { success: true, data: { island: stored.data, island_id: ref.island_id, version: stored.version } };
+  }
+  if (ref.originalJson) {
+    const upgraded = migrateIsland(ref.originalJson);
+    if (!upgraded.success) return upgraded;
+    const checked = validator.validate(upgraded.data.island);
+    if (!checked.success) return { success: false, message: `'originalJson' doesn't match the Island schema: ${checked.message}` };
+    return { success: true, data: { island: checked.data } };
+  }
+  const current = state.session.history.current();
+  if (!current) {
+    return { success: false, message: "Missing 'island_id' or 'originalJson', and the session has no island yet." };
+  }
+  return {
+    success: true,
+    data: {
+      island: current.data,
+      ...(current.island_id !== undefined ? { island_id: current.island_id } : {}),
+      ...(current.version !== undefined ? { version: current.version } : {})
+    }
+  };
+}
+
+/** A version number from a request's route, query or body: a positive integer, or undefined if there's none */
+function parseVersion(value: unknown): Result<number | undefined> {
+  if (value === undefined) return { success: true, data: undefined };
+  const version = typeof value === "string" && /^\d+$/.test(value) ? Number(value) : value;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { success: false, message: "'version' must be a positive integer." };
+  }
+  return { success: true, data: version };
+}
+
+/** Balance threshold overrides from a request; every value must be a number */
+function parseThresholds(source: Record<string, unknown>): Result<Partial<BalanceThresholds>> {
+  const thresholds: Partial<BalanceThresholds> = {};
+  for (const key of Object.keys(DEFAULT_BALANCE_THRESHOLDS) as (keyof BalanceThresholds)[]) {
+    if (source[key] === undefined) continue;
+    const value = Number(source[key]);
+    if (!Number.isFinite(value)) return { success: false, message: `Threshold '${key}' must be a number.` };
+    thresholds[key] = value;
+  }
+  return { success: true, data: thresholds };
+}
+
+function isGraphFormat(format: unknown): format is GraphFormat {
+  return format === "dot" || format === "mermaid";
+}
+
+function isDialogueFormat(format: unknown): format is DialogueFormat {
+  return format === "ink" || format === "yarn";
+}
+
+/** The world_id part of a SaveTarget */
+function worldTarget(world: WorldContext | undefined): { world_id?: string } {
+  return world ? { world_id: world.world_id } : {};
+}
+
 // =============================================
 // 🔷 Utility helpers
 // =============================================
 
 /** Returns a closure that can check if the job is stale or canceled */
-function makeStaleChecker(state: SocketState, id: number) {
-  return () => state.canceled || id !== state.lastJobId;
+function makeStaleChecker(session: Session, id: number, signal: AbortSignal) {
+  return () => signal.aborted || id !== session.lastJobId;
 }
 
 /** Simple busy-state setter */
-function setBusy(state: SocketState, busy: boolean) {
-  state.busy = busy;
+function setBusy(session: Session, busy: boolean) {
+  session.busy = busy;
+  if (!busy) delete session.issuedBy;
 }
 
 /** Centralized error emitter so we only send structured messages */
-function sendError(ws: WebSocket, message: string) {
-  console.error("[JobError]", message);
-  send(ws, { event: "error", message });
-  send(ws, { event: "done", ok: false });
+function sendError(job: JobContext, message: string) {
+  job.log.error("Job failed", { error: message });
+  emit(job, { event: "error", message });
+  emit(job, { event: "done", ok: false });
 }
 
 /** Small delay utility (used for pacing repair attempts) */
 const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 
+const TIMEOUT_MESSAGE = "Operation timed out";
+
+/**
+ * Runs an async operation with a timeout.
+ * The operation gets a signal that aborts when the job's signal does, or when it runs beyond `ms`;
+ * in the latter case it rejects with a timeout error right away, and the aborted model calls stop too.
+ */
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number, signal: AbortSignal): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener("abort", onAbort, { once: true });
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort(TIMEOUT_MESSAGE);
+      reject(new Error(TIMEOUT_MESSAGE));
+    }, ms);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Puts a job for this connection's session in the server-wide queue. While it waits, the session gets "queued"
+ * status events with its position. The job gets its context, id and an abort signal; a cancel aborts the signal.
+ * The session runs one job at a time: if it's busy, the job isn't started and the sender gets an error. Handlers
+ * check that before they await anything too, but another participant's job can start while they wait.
+ */
+function startJob(state: SocketState, kind: JobKind, prompt: string, run: (job: JobContext, jobId: number, signal: AbortSignal) => Promise<void>) {
+  const session = state.session;
+  if (session.busy) {
+    send(state.ws, { event: "error", message: busyMessage(session) });
+    return;
+  }
+  const id = ++jobCount;
+  const now = Date.now();
+  const job: JobContext = {
+    session,
+    issuedBy: state.participant,
+    id,
+    kind,
+    prompt,
+    log: log.child({ job_id: id, session_id: session.id }),
+    accepted: now,
+    stage: { name: "queued", since: now },
+    repairs: 0,
+    modelCalls: 0,
+    tokens: { prompt: 0, completion: 0 },
+  };
+  const jobId = ++session.lastJobId;
+  setBusy(session, true);
+  session.issuedBy = state.participant;
+  jobsStarted.inc({ kind });
+  job.log.info("Job accepted", { kind, prompt, participant_id: state.participant.participant_id, client_id: state.clientId });
+  session.job = jobQueue.enqueue({
+    clientId: state.clientId,
+    run: async signal => {
+      try {
+        await jobScope.run(job, () => run(job, jobId, signal));
+      } finally {
+        finishJob(job, signal.aborted);
+        if (session.participants.size === 0) sessions.delete(session.id);
+      }
+    },
+    onCanceled: () => finishJob(job, true),
+    onPosition: (position, waiting) => {
+      sendStatus(job, "queued", `Waiting for a free worker: position ${position} of ${waiting}.`, { position, queue_length: waiting });
+    },
+  });
+}
+
+// =============================================
+// 🔷 Job metrics
+// =============================================
+
+// Server-wide job counter, for job ids in logs
+let jobCount = 0;
+
+/** Ends the job's current stage, recording how long it took, and starts the next */
+function enterStage(job: JobContext, stage: stageName) {
+  if (stage === job.stage.name) return;
+  const now = Date.now();
+  stageDuration.observe((now - job.stage.since) / 1000, { stage: job.stage.name });
+  job.stage = { name: stage, since: now };
+}
+
+/** Counts a model repair round trip for the job */
+function countRepair(job: JobContext, reason: "validation" | "locks") {
+  job.repairs++;
+  repairAttempts.inc({ reason });
+}
+
+/** Records a finished job's outcome, duration and cost, and logs them with its prompt */
+function finishJob(job: JobContext, canceled: boolean) {
+  enterStage(job, "idle");
+  const outcome: JobOutcome = canceled ? "canceled" : job.outcome ?? "canceled";  // no outcome: superseded before it got anywhere
+  const seconds = (Date.now() - job.accepted) / 1000;
+  jobsFinished.inc({ kind: job.kind, outcome });
+  jobDuration.observe(seconds, { kind: job.kind });
+  jobRepairs.observe(job.repairs, { kind: job.kind });
+  job.log.info("Job finished", {
+    kind: job.kind,
+    outcome,
+    prompt: job.prompt,
+    duration_ms: Math.round(seconds * 1000),
+    repairs: job.repairs,
+    model_calls: job.modelCalls,
+    prompt_tokens: job.tokens.prompt,
+    completion_tokens: job.tokens.completion,
+  });
+}
+
+/** The logger for the job the caller is running for, or the server's if it isn't running for one */
+function jobLog(): Logger {
+  return jobScope.getStore()?.log ?? log;
+}
+
 /**
- * Wraps an async operation with a timeout.
- * If the operation hangs beyond `ms`, it rejects with a timeout error.
+ * Wraps the model to time every call and count its tokens, server-wide and for the job making it.
+ * Calls are matched to jobs through jobScope, since the translators are shared by every job.
  */
-async function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
-  const timeout = new Promise<never>((_, reject) =>
-    setTimeout(() => reject(new Error("Operation timed out")), ms)
-  );
-  return Promise.race([p, timeout]);
+function meterModel(inner: MythosLanguageModel): MythosLanguageModel {
+  inner.onUsage = usage => {
+    const prompt = usage.prompt_tokens ?? 0, completion = usage.completion_tokens ?? 0;
+    modelTokens.inc({ type: "prompt" }, prompt);
+    modelTokens.inc({ type: "completion" }, completion);
+    const job = jobScope.getStore();
+    if (job) {
+      job.tokens.prompt += prompt;
+      job.tokens.completion += completion;
+    }
+  };
+  const timed = async (call: () => Promise<Result<string>>) => {
+    const start = Date.now();
+    const result = await call();
+    modelCalls.inc({ outcome: result.success ? "ok" : "error" });
+    modelCallDuration.observe((Date.now() - start) / 1000);
+    const job = jobScope.getStore();
+    if (job) job.modelCalls++;
+    return result;
+  };
+  const metered: MythosLanguageModel = {
+    complete: (prompt, signal) => timed(() => inner.complete(prompt, signal)),
+  };
+  if (inner.completeStream) {
+    const completeStream = inner.completeStream;
+    metered.completeStream = (prompt, onChunk, signal) => timed(() => completeStream(prompt, onChunk, signal));
+  }
+  return metered;
+}
+
+// =============================================
+// 🔷 Sessions
+// =============================================
+
+// Every session with at least one participant (or a job still running), by id
+const sessions = new Map<string, Session>();
+
+/** Returns the session with this id, creating it if needed */
+function getSession(id: string): Session {
+  let session = sessions.get(id);
+  if (!session) {
+    session = { id, participants: new Set(), busy: false, jobName: "idle", lastJobId: 0, history: createIslandHistory() };
+    sessions.set(id, session);
+  }
+  return session;
+}
+
+/** Moves a socket into a session, leaving its current one, and tells both sessions who's in them now */
+function joinSession(state: SocketState, id: string) {
+  const previous = state.session;
+  if (previous.id === id) return;
+  leaveSession(state);
+  state.session = getSession(id);
+  state.session.participants.add(state);
+  announceSession(state.session);
+  if (sessions.has(previous.id)) announceSession(previous);
+}
+
+/**
+ * Takes a socket out of its session. A session with nobody left in it has nobody to report to, so its job is
+ * canceled and the session is forgotten (once the job has wound down).
+ */
+function leaveSession(state: SocketState) {
+  const session = state.session;
+  session.participants.delete(state);
+  if (session.participants.size > 0) return;
+  if (session.job?.cancel("Everyone left the session.") === "queued") setBusy(session, false);
+  if (!session.busy) sessions.delete(session.id);
+}
+
+/** Takes a closed socket out of its session and tells whoever is left */
+function disconnect(state: SocketState) {
+  const session = state.session;
+  if (!session.participants.has(state)) return;
+  leaveSession(state);
+  if (session.participants.size > 0) announceSession(session);
+}
+
+/** The session's history event */
+function historyEvent(session: Session): EvHistory {
+  return {
+    event: "history",
+    session_id: session.id,
+    entries: session.history.list(),
+    can_undo: session.history.canUndo(),
+    can_redo: session.history.canRedo(),
+  };
+}
+
+/**
+ * Moves the session's island one step back or forward in its history and shows everyone the island it's at now.
+ * The island store gets the same version again as its latest, so a modify by island_id continues from here.
+ */
+async function stepHistory(state: SocketState, direction: "undo" | "redo") {
+  const session = state.session;
+  if (session.busy) {
+    send(state.ws, { event: "error", message: busyMessage(session) });
+    return;
+  }
+  const entry = direction === "undo" ? session.history.undo() : session.history.redo();
+  if (!entry) {
+    send(state.ws, { event: "error", message: `Nothing to ${direction}.` });
+    return;
+  }
+
+  let saved: { island_id?: string; version?: number } = {};
+  if (entry.island_id !== undefined && entry.version !== undefined) {
+    const latest = await store.getVersion(entry.island_id);
+    const version = latest?.version === entry.version ? latest : await store.revert(entry.island_id, entry.version);
+    if (version) saved = { island_id: entry.island_id, version: version.version };
+  }
+  broadcast(session, { event: "result", data: entry.data, is_modify: true, ...saved, history: direction, issued_by: state.participant });
+  broadcast(session, historyEvent(session));
+}
+
+/** The error for a job request while the session already has one */
+function busyMessage(session: Session): string {
+  const by = session.issuedBy ? ` (started by ${session.issuedBy.name ?? session.issuedBy.participant_id})` : "";
+  return `A job is already in progress in this session${by}.`;
+}
+
+/** Sends every participant the session's current membership and job */
+function announceSession(session: Session) {
+  const participants = [...session.participants].map(p => p.participant);
+  const active_job = session.busy && session.issuedBy ? { active_job: { issued_by: session.issuedBy, stage: session.jobName } } : {};
+  for (const participant of session.participants) {
+    send(participant.ws, { event: "session", session_id: session.id, you: participant.participant.participant_id, participants, ...active_job });
+  }
 }
 
 
@@ -355,14 +1675,20 @@ async function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
 // Attach WS server to the existing HTTP server
 const wss = new WebSocketServer({ server });
 
-wss.on("connection", (ws: WebSocket) => {
-  const state: SocketState = { busy: false, canceled: false, lastJobId: 0 , jobName: "idle"};
+wss.on("connection", (ws: WebSocket, req: http.IncomingMessage) => {
+  // jobs are shared fairly between clients; a client can name itself (so its tabs share a turn) with ?client_id=
+  const clientId = new URL(req.url ?? "/", "http://localhost").searchParams.get("client_id") ?? req.socket.remoteAddress ?? "unknown";
+  // every socket starts out alone in a private session named after it
+  const participant: Participant = { participant_id: crypto.randomUUID() };
+  const state: SocketState = { ws, participant, clientId, session: getSession(participant.participant_id) };
+  state.session.participants.add(state);
+  announceSession(state.session);
 
   // Heartbeat/keepalive (helps with proxies/timeouts)
   state.heartbeat = setInterval(() => {
     if (ws.readyState === WebSocket.OPEN) {
       // send a minimal keepalive as a status "idle" event
-      send(ws, { event: "status", stage: state.jobName, message: "..." });
+      send(ws, { event: "status", stage: state.session.jobName, message: "..." });
     }
   }, 15000);
 
@@ -371,87 +1697,357 @@ wss.on("connection", (ws: WebSocket) => {
     let rawStr = raw.toString();
 
     try {
-      console.log("Received message:", rawStr);
       msg = JSON.parse(rawStr) as ClientMessage;
+      log.info("Received message", { participant_id: participant.participant_id, type: msg?.type, bytes: rawStr.length });
     } catch {
+      log.warn("Invalid JSON in message", { participant_id: participant.participant_id, bytes: rawStr.length });
       send(ws, { event: "error", message: "Design Server: Invalid JSON in message from client" });
       return;
     }
 
-    if (msg.type === "ping") {
-      send(ws, { event: "pong", t: Date.now() });
-      return;
-    }
+    // a message the checks below didn't anticipate must fail on its own, not take every session down with it
+    try {
+      if (msg.type === "ping") {
+        send(ws, { event: "pong", t: Date.now() });
+        return;
+      }
 
-    if (msg.type === "cancel") {
-      if (state.busy) {
-        state.canceled = true;
-        // We can't truly abort translate() without upstream support; we just stop emitting any further events
-        // translate, modify, and repair are all awaited with cancellation checks in between steps
-        // you can't cancel mid-translate (at the moment) but you can prevent further processing
-        sendStatus(ws, state, "idle", "Job canceled by client.");
-      } else {
-        sendStatus(ws, state, "idle", "No active job to cancel.");
+      if (msg.type === "join") {
+        const id = typeof msg.session === "string" ? msg.session.trim() : "";
+        let problem: string | undefined;
+        if (!id) problem = "Missing 'session'.";
+        else if (msg.name !== undefined && (typeof msg.name !== "string" || msg.name.length > MAX_PARTICIPANT_NAME)) {
+          problem = `'name' must be a string of at most ${MAX_PARTICIPANT_NAME} characters.`;
+        }
+        if (problem) {
+          send(ws, { event: "error", message: problem });
+          return;
+        }
+        if (msg.name !== undefined) participant.name = msg.name;
+        joinSession(state, id);
+        return;
       }
-      return;
-    }
 
-    if (msg.type === "prompt") {
-      const prompt = (msg.prompt ?? "").trim();
-      if (!prompt) {
-        send(ws, { event: "error", message: "Missing 'prompt'." });
-        send(ws, { event: "done", ok: false });
+      if (msg.type === "leave") {
+        joinSession(state, participant.participant_id);
         return;
       }
 
-      if (state.busy) {
-        send(ws, { event: "error", message: "Job already in progress on this connection." });
+      if (msg.type === "undo" || msg.type === "redo") {
+        await stepHistory(state, msg.type);
         return;
       }
 
-      // Start a new job id
-      const jobId = ++state.lastJobId;
-      runJob(ws, state, jobId, prompt);
-      return;
-    }
+      if (msg.type === "history") {
+        send(ws, historyEvent(state.session));
+        return;
+      }
 
-    if(msg.type === "modify") {
-      const prompt = (msg.prompt ?? "").trim();
-      if (!prompt) {
-        send(ws, { event: "error", message: "Missing 'prompt'." });
-        send(ws, { event: "done", ok: false });
+      if (msg.type === "export") {
+        if (!isGraphFormat(msg.format)) {
+          send(ws, { event: "error", message: "'format' must be 'dot' or 'mermaid'." });
+          return;
+        }
+        const found = await findIsland(state, msg);
+        if (!found.success) {
+          send(ws, { event: "error", message: found.message });
+          return;
+        }
+        const { island, ...saved } = found.data;
+        send(ws, { event: "export", format: msg.format, content: exportRouteGraph(island, msg.format), ...saved });
         return;
       }
-      if (state.busy) {
-        send(ws, { event: "error", message: "Job already in progress on this connection." });
+
+      if (msg.type === "analyze") {
+        const overrides: unknown = msg.thresholds ?? {};
+        const thresholds: Result<Partial<BalanceThresholds>> = typeof overrides === "object" && overrides !== null && !Array.isArray(overrides)
+          ? parseThresholds(overrides as Record<string, unknown>)
+          : { success: false, message: "'thresholds' must be an object of threshold values." };
+        const locked = msg.locked ?? [];
+        const lockError = checkLockPointers(locked);
+        if (!thresholds.success || lockError) {
+          send(ws, { event: "error", message: !thresholds.success ? thresholds.message : lockError! });
+          return;
+        }
+        const found = await findIsland(state, msg);
+        if (!found.success) {
+          send(ws, { event: "error", message: found.message });
+          return;
+        }
+        const { island, ...saved } = found.data;
+        const report = analyzeBalance(island, thresholds.data);
+        send(ws, { event: "balance", report, ...saved });
+
+        if (msg.fix && report.issues.length > 0) {
+          if (state.session.busy) {
+            send(ws, { event: "error", message: busyMessage(state.session) });
+            return;
+          }
+          const prompt = describeBalanceIssues(report);
+          startJob(state, "analyze", prompt, (job, jobId, signal) => runModificationJob(job, jobId, signal, prompt, island, {
+            ...(saved.island_id !== undefined ? { islandId: saved.island_id } : {}),
+            ...(saved.version !== undefined ? { baseVersion: saved.version } : {}),
+            mode: "full",
+            locked,
+            lockPolicy: "restore",
+          }));
+        }
         return;
       }
-      const previousJson = msg.originalJson;
-      if (!previousJson) {
-        send(ws, { event: "error", message: "Missing 'originalJson'." });
-        send(ws, { event: "done", ok: false });
+
+      if (msg.type === "cancel") {
+        // any participant can cancel the session's job. a running job's model calls are aborted, and its runner
+        // stops at the next stale check and sends done; a queued job never started, so it's finished off here
+        const session = state.session;
+        const canceled = session.job?.cancel("Job canceled by client.");
+        const by = participant.name ?? participant.participant_id;
+        if (canceled === "running") {
+          broadcast(session, { event: "status", stage: "idle", message: `Job canceled by ${by}.`, issued_by: participant });
+          session.jobName = "idle";
+        } else if (canceled === "queued") {
+          setBusy(session, false);
+          broadcast(session, { event: "status", stage: "idle", message: `Queued job canceled by ${by}.`, issued_by: participant });
+          broadcast(session, { event: "done", ok: false, issued_by: participant });
+          session.jobName = "idle";
+        } else {
+          send(ws, { event: "status", stage: "idle", message: "No active job to cancel." });
+        }
+        return;
+      }
+
+      if (msg.type === "prompt") {
+        const prompt = (msg.prompt ?? "").trim();
+        if (!prompt) {
+          send(ws, { event: "error", message: "Missing 'prompt'." });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+
+        if (state.session.busy) {
+          send(ws, { event: "error", message: busyMessage(state.session) });
+          return;
+        }
+
+        const world = await loadWorldContext(msg.world_id);
+        if (!world.success) {
+          send(ws, { event: "error", message: world.message });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        startJob(state, "prompt", prompt, (job, jobId, signal) => runJob(job, jobId, signal, prompt, world.data));
         return;
       }
-      // Start a new job id
-      const jobId = ++state.lastJobId;
-      runModificationJob(ws, state, jobId, prompt, previousJson);
-      return;
-    } 
 
-    // Fallback for unknown message types
-    send(ws, { event: "error", message: "Unknown message type." });
+      if(msg.type === "modify") {
+        const prompt = (msg.prompt ?? "").trim();
+        if (!prompt) {
+          send(ws, { event: "error", message: "Missing 'prompt'." });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        if (state.session.busy) {
+          send(ws, { event: "error", message: busyMessage(state.session) });
+          return;
+        }
+        const locked = msg.locked ?? [];
+        const lockError = checkLockPointers(locked);
+        if (lockError) {
+          send(ws, { event: "error", message: lockError });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+
+        // a stored island takes precedence over an inline document
+        let previousJson = msg.originalJson;
+        let baseVersion: number | undefined;
+        if (msg.island_id !== undefined) {
+          const stored = await store.getVersion(msg.island_id, msg.version);
+          if (!stored) {
+            send(ws, { event: "error", message: `Island '${msg.island_id}'${msg.version !== undefined ? ` version ${msg.version}` : ""} not found.` });
+            send(ws, { event: "done", ok: false });
+            return;
+          }
+          previousJson = stored.data;
+          baseVersion = stored.version;
+        }
+        // with neither, modify the session's current island
+        let islandId = msg.island_id;
+        const current = state.session.history.current();
+        if (!previousJson && current) {
+          previousJson = current.data;
+          islandId = current.island_id;
+          baseVersion = current.version;
+        }
+        if (!previousJson) {
+          send(ws, { event: "error", message: "Missing 'island_id' or 'originalJson', and the session has no island yet." });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        // an inline document may be from before the current schema
+        const upgraded = migrateIsland(previousJson);
+        if (!upgraded.success) {
+          send(ws, { event: "error", message: upgraded.message });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        previousJson = upgraded.data.island;
+        const world = await loadWorldContext(msg.world_id, previousJson.island_name);
+        if (!world.success) {
+          send(ws, { event: "error", message: world.message });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        const original = previousJson;
+        startJob(state, "modify", prompt, (job, jobId, signal) => runModificationJob(job, jobId, signal, prompt, original, {
+          ...(islandId !== undefined ? { islandId } : {}),
+          ...(baseVersion !== undefined ? { baseVersion } : {}),
+          mode: msg.mode ?? "full",
+          ...(msg.path !== undefined ? { path: msg.path } : {}),
+          locked,
+          lockPolicy: msg.lock_policy ?? "restore",
+          ...(world.data ? { world: world.data } : {}),
+        }));
+        return;
+      } 
+
+      if (msg.type === "generate") {
+        const prompt = typeof msg.prompt === "string" ? msg.prompt.trim() : "";
+        const entityTranslator = typeof msg.typeName === "string" ? entityTranslators.get(msg.typeName) : undefined;
+        let problem: string | undefined;
+        if (!prompt) problem = "Missing 'prompt'.";
+        else if (typeof msg.typeName !== "string") problem = "Missing 'typeName'.";
+        else if (msg.context !== undefined && typeof msg.context !== "string") problem = "'context' must be a string.";
+        else if (!entityTranslator) problem = `Unknown typeName '${msg.typeName}'. Expected one of: ${[...entityTranslators.keys()].join(", ")}.`;
+        else if (msg.path !== undefined && !(typeof msg.path === "string" && msg.path.startsWith("/"))) problem = `'path' must be a JSON pointer, e.g. "/regions/0/buildings/-".`;
+        else if (msg.insert && msg.path === undefined) problem = "'insert' needs a 'path' to insert at.";
+        if (problem || !entityTranslator) {
+          send(ws, { event: "error", message: problem! });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        if (state.session.busy) {
+          send(ws, { event: "error", message: busyMessage(state.session) });
+          return;
+        }
+
+        // the island is context (and the insert destination); only looked up when the message points at one
+        let found: { island: Island; island_id?: string } | undefined;
+        if (msg.island_id !== undefined || msg.originalJson || msg.path !== undefined) {
+          const island = await findIsland(state, msg);
+          if (!island.success) {
+            send(ws, { event: "error", message: island.message });
+            send(ws, { event: "done", ok: false });
+            return;
+          }
+          found = island.data;
+        }
+        let insert: GenerateOptions["insert"];
+        if (msg.insert && found && msg.path !== undefined) {
+          const target = resolveInsertTarget(schemaModel, "Island", msg.path, msg.typeName);
+          if (!target.success) {
+            send(ws, { event: "error", message: target.message });
+            send(ws, { event: "done", ok: false });
+            return;
+          }
+          insert = { target: target.data, island: found.island, ...(found.island_id !== undefined ? { island_id: found.island_id } : {}) };
+        }
+
+        const preamble = [found ? describeEntityContext(found.island, msg.typeName, msg.path) : undefined, msg.context]
+          .filter(p => p !== undefined).join("\n") || undefined;
+        // a quest can only be checked against the island it's for, so it gets a translator of its own
+        const entity: EntitySubject = {
+          typeName: msg.typeName,
+          translator: msg.typeName === "Quest" && found ? createQuestTranslator(found.island) : entityTranslator
+        };
+        startJob(state, "generate", prompt, (job, jobId, signal) => runGenerateJob(job, jobId, signal, prompt, {
+          entity,
+          ...(preamble !== undefined ? { preamble } : {}),
+          ...(insert ? { insert } : {}),
+        }));
+        return;
+      }
+
+      if (msg.type === "dialogue") {
+        let problem: string | undefined;
+        if (typeof msg.human_name !== "string" || msg.human_name.trim() === "") problem = "Missing 'human_name'.";
+        else if (msg.format !== undefined && !isDialogueFormat(msg.format)) problem = "'format' must be 'ink' or 'yarn'.";
+        else if (msg.prompt !== undefined && typeof msg.prompt !== "string") problem = "'prompt' must be a string.";
+        if (problem) {
+          send(ws, { event: "error", message: problem });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        if (state.session.busy) {
+          send(ws, { event: "error", message: busyMessage(state.session) });
+          return;
+        }
+        const found = await findIsland(state, msg);
+        if (!found.success) {
+          send(ws, { event: "error", message: found.message });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        const island = found.data.island;
+        const speaker = findSpeaker(island, msg.human_name);
+        if (!speaker.success) {
+          send(ws, { event: "error", message: speaker.message });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        const prompt = (msg.prompt ?? "").trim() || `Write ${msg.human_name}'s dialogue.`;
+        startJob(state, "dialogue", prompt, (job, jobId, signal) => runGenerateJob(job, jobId, signal, prompt, {
+          entity: { typeName: "Dialogue", translator: createDialogueTranslator(island, speaker.data) },
+          preamble: describeDialogueContext(island, speaker.data),
+          ...(msg.format !== undefined ? { script: { format: msg.format, speaker: speaker.data } } : {}),
+        }));
+        return;
+      }
+
+      if (msg.type === "prompt_hierarchical") {
+        const prompt = (msg.prompt ?? "").trim();
+        if (!prompt) {
+          send(ws, { event: "error", message: "Missing 'prompt'." });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        const concurrency = msg.concurrency ?? MAX_PART_CONCURRENCY;
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+          send(ws, { event: "error", message: "'concurrency' must be a positive whole number." });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        if (state.session.busy) {
+          send(ws, { event: "error", message: busyMessage(state.session) });
+          return;
+        }
+        const world = await loadWorldContext(msg.world_id);
+        if (!world.success) {
+          send(ws, { event: "error", message: world.message });
+          send(ws, { event: "done", ok: false });
+          return;
+        }
+        startJob(state, "prompt_hierarchical", prompt, (job, jobId, signal) => runHierarchicalJob(job, jobId, signal, prompt, Math.min(concurrency, MAX_PART_CONCURRENCY), world.data));
+        return;
+      }
+
+      // Fallback for unknown message types
+      send(ws, { event: "error", message: "Unknown message type." });
+    } catch (err: any) {
+      log.error("Could not handle message", { participant_id: participant.participant_id, type: msg?.type, error: err });
+      send(ws, { event: "error", message: `Design Server: Could not handle the message: ${err?.message ?? err}` });
+    }
   });
 
   ws.on("close", () => {
     if (state.heartbeat) clearInterval(state.heartbeat);
-    state.canceled = true;
+    disconnect(state);
   });
 
   ws.on("error", (err) => {
-    console.warn("WS error:", err);
+    log.warn("WebSocket error", { participant_id: participant.participant_id, error: err });
     if (state.heartbeat) clearInterval(state.heartbeat);
-    state.canceled = true;
+    disconnect(state);
   });
 });
 
-console.log("WebSocket server attached (ws://<host>:" + port + ")");
+log.info("WebSocket server attached", { url: `ws://<host>:${port}` });
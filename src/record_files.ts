@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+
+// The files behind the file-backed stores (islands, worlds).
+// Each record is one json file, <dir>/<id>.json, named by a uuid the store generated. Writes to one record
+// are serialized, and each write replaces the file atomically, so a reader never sees half a record.
+
+export interface RecordFiles<T> {
+    /** The ids of every stored record */
+    ids(): Promise<string[]>;
+    /** The record with the given id; undefined if there's none, or the id isn't one a store could have made */
+    read(id: string): Promise<T | undefined>;
+    /** Replaces the record's file, or creates it */
+    write(id: string, record: T): Promise<void>;
+    /** Runs fn after any other pending write to the same record */
+    exclusive<R>(id: string, fn: () => Promise<R>): Promise<R>;
+}
+
+/**
+ * Creates the record files for a store in the given directory (created if missing).
+ * @param dir Directory to keep the record files in.
+ */
+export function createRecordFiles<T>(dir: string): RecordFiles<T> {
+    fs.mkdirSync(dir, { recursive: true });
+    const pending = new Map<string, Promise<unknown>>();
+
+    const files: RecordFiles<T> = {
+        ids,
+        read,
+        write,
+        exclusive
+    };
+    return files;
+
+    async function ids(): Promise<string[]> {
+        return (await fs.promises.readdir(dir))
+            .filter(name => name.endsWith(".json"))
+            .map(name => path.basename(name, ".json"));
+    }
+
+    async function read(id: string): Promise<T | undefined> {
+        if (!isValidId(id)) return undefined;
+        try {
+            return JSON.parse(await fs.promises.readFile(fileFor(id), "utf8")) as T;
+        } catch (err: any) {
+            if (err.code === "ENOENT") return undefined;
+            throw err;
+        }
+    }
+
+    async function write(id: string, record: T) {
+        const file = fileFor(id);
+        const temp = `${file}.${process.pid}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(record, null, 2), "utf8");
+        await fs.promises.rename(temp, file);
+    }
+
+    function exclusive<R>(id: string, fn: () => Promise<R>): Promise<R> {
+        const previous = pending.get(id) ?? Promise.resolve();
+        const next = previous.then(fn, fn);
+        pending.set(id, next.catch(() => undefined));
+        return next;
+    }
+
+    function fileFor(id: string) {
+        return path.join(dir, `${id}.json`);
+    }
+}
+
+/** Ids are uuids we generated; anything else (e.g. "../x") never touches the file system */
+function isValidId(id: string): boolean {
+    return /^[0-9a-f-]{36}$/i.test(id);
+}
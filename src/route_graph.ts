@@ -0,0 +1,216 @@
+import { Route } from "./io_schema";
+import { IslandSkeleton } from "./skeleton_schema";
+import { collectRoutes, geoFeatures } from "./island_validator";
+
+// Route graph exporters, for dropping island maps into design reviews.
+// Regions are nodes, annotated with biome, topography and weather; routes are directed edges, with the
+// starting routes leaving from an "Arrival" node. Edges are styled the same way in both formats:
+//  - color by difficulty: easy green, medium amber, hard red, impossible gray
+//  - line by route type: roads and bridges solid, paths and trails dashed, crossings (ferry, dock,
+//    beachhead, dirigible) bold, tunnels dotted
+//  - closed routes are drawn faded (DOT) or dotted (Mermaid) and labelled "closed"
+// Geo features hang off their region as nodes of their own, joined to it by an undirected gray line, and a route
+// with a destination_feature points at the feature rather than the region.
+// A route to a region or feature that doesn't exist points at a red "missing" node, so broken links are visible too.
+
+export type GraphFormat = "dot" | "mermaid";
+
+type Edge = {
+    from: string;                   // node id
+    to: string;
+    route: Route;
+};
+
+type Node = {
+    id: string;
+    label: string[];                // lines
+    kind: "arrival" | "region" | "feature" | "missing";
+};
+
+/** A geo feature's place in its region */
+type Containment = {
+    region: string;                 // node id
+    feature: string;
+};
+
+const CONTAINMENT_COLOR = "#9e9e9e";
+
+const difficultyColors: Record<Route["difficulty"], string> = {
+    easy: "#2e7d32",
+    medium: "#f9a825",
+    hard: "#c62828",
+    impossible: "#757575"
+};
+
+/** How each route type is drawn */
+function lineStyle(routeType: Route["route_type"]): "solid" | "dashed" | "bold" | "dotted" {
+    switch (routeType) {
+        case "path":
+        case "trail":
+            return "dashed";
+        case "ferry":
+        case "dock":
+        case "beachhead":
+        case "dirigible":
+            return "bold";
+        case "tunnel":
+            return "dotted";
+        default:
+            return "solid";
+    }
+}
+
+/**
+ * Renders an island's route graph in the given format.
+ */
+export function exportRouteGraph(island: IslandSkeleton, format: GraphFormat): string {
+    return format === "dot" ? islandToDot(island) : islandToMermaid(island);
+}
+
+/**
+ * Renders an island's route graph as Graphviz DOT.
+ */
+export function islandToDot(island: IslandSkeleton): string {
+    const { nodes, edges, containments } = buildGraph(island);
+    const lines = [
+        `digraph ${quoteDot(island.island_name ?? "island")} {`,
+        `  label=${quoteDot(island.island_name ?? "")};`,
+        `  labelloc="t";`,
+        `  rankdir=LR;`,
+        `  node [shape=box, style="rounded,filled", fillcolor="#f5f0e6", fontname="Helvetica"];`,
+        `  edge [fontname="Helvetica", fontsize=10];`
+    ];
+    for (const node of nodes) {
+        const attributes = [`label=${quoteDot(node.label.join("\n"))}`];
+        if (node.kind === "arrival") attributes.push(`shape=oval`, `fillcolor="#dce8f5"`);
+        if (node.kind === "feature") attributes.push(`shape=ellipse`, `fillcolor="#e3efd9"`, `fontsize=10`);
+        if (node.kind === "missing") attributes.push(`fillcolor="#ffcdd2"`, `color="#c62828"`);
+        lines.push(`  ${node.id} [${attributes.join(", ")}];`);
+    }
+    for (const { from, to, route } of edges) {
+        const style = lineStyle(route.route_type);
+        const attributes = [
+            `label=${quoteDot(edgeLabel(route))}`,
+            `color=${quoteDot(difficultyColors[route.difficulty] ?? "#000000")}`,
+            `fontcolor=${quoteDot(difficultyColors[route.difficulty] ?? "#000000")}`,
+            `style=${quoteDot(style)}`
+        ];
+        if (!route.open) attributes.push(`arrowhead=odot`, `penwidth=0.6`);
+        lines.push(`  ${from} -> ${to} [${attributes.join(", ")}];`);
+    }
+    for (const { region, feature } of containments) {
+        lines.push(`  ${region} -> ${feature} [dir=none, style=dotted, color=${quoteDot(CONTAINMENT_COLOR)}];`);
+    }
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Renders an island's route graph as a Mermaid flowchart.
+ */
+export function islandToMermaid(island: IslandSkeleton): string {
+    const { nodes, edges, containments } = buildGraph(island);
+    const lines = ["flowchart LR"];
+    if (island.island_name) {
+        lines.splice(0, 0, "---", `title: ${island.island_name.replace(/\n/g, " ")}`, "---");
+    }
+    for (const node of nodes) {
+        const label = quoteMermaid(node.label.join("<br/>"));
+        lines.push(node.kind === "arrival" ? `    ${node.id}([${label}])` : node.kind === "feature" ? `    ${node.id}{{${label}}}` : `    ${node.id}[${label}]`);
+    }
+    const linkStyles: string[] = [];
+    edges.forEach(({ from, to, route }, i) => {
+        const style = lineStyle(route.route_type);
+        const arrow = !route.open || style === "dotted" || style === "dashed" ? "-.->" : style === "bold" ? "==>" : "-->";
+        lines.push(`    ${from} ${arrow}|${quoteMermaid(edgeLabel(route))}| ${to}`);
+        const color = difficultyColors[route.difficulty] ?? "#000000";
+        const dash = !route.open ? ",stroke-dasharray:2 4" : style === "dashed" ? ",stroke-dasharray:6 4" : "";
+        linkStyles.push(`    linkStyle ${i} stroke:${color},color:${color}${dash}`);
+    });
+    // links are numbered in the order they appear, so these come after every route
+    containments.forEach(({ region, feature }, i) => {
+        lines.push(`    ${region} --- ${feature}`);
+        linkStyles.push(`    linkStyle ${edges.length + i} stroke:${CONTAINMENT_COLOR},stroke-dasharray:2 2`);
+    });
+    lines.push(...linkStyles);
+    lines.push(`    classDef arrival fill:#dce8f5,stroke:#5b7fa3`);
+    lines.push(`    classDef feature fill:#e3efd9,stroke:#6b8f5a`);
+    lines.push(`    classDef missing fill:#ffcdd2,stroke:#c62828`);
+    for (const kind of ["arrival", "feature", "missing"] as const) {
+        const ids = nodes.filter(n => n.kind === kind).map(n => n.id);
+        if (ids.length > 0) lines.push(`    class ${ids.join(",")} ${kind}`);
+    }
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Nodes for the arrival point, every region and geo feature (plus any missing destinations), one edge per route,
+ * and the link from each feature to its region
+ */
+function buildGraph(island: IslandSkeleton): { nodes: Node[]; edges: Edge[]; containments: Containment[] } {
+    const nodes: Node[] = [{ id: "arrival", label: ["Arrival"], kind: "arrival" }];
+    const containments: Containment[] = [];
+    const ids = new Map<string, string>();
+    const featureIds = new Map<string, string>();       // by region and feature name
+    const featureKey = (region: string, feature: string) => JSON.stringify([region, feature]);
+    (island.regions ?? []).forEach((region, r) => {
+        const id = `region_${r}`;
+        if (!ids.has(region.region_name)) ids.set(region.region_name, id);
+        nodes.push({
+            id,
+            label: [region.region_name, `${region.biome} · ${region.topography} · ${region.weather}`],
+            kind: "region"
+        });
+        geoFeatures(region).forEach((feature, g) => {
+            const featureId = `feature_${r}_${g}`;
+            const key = featureKey(region.region_name, feature.feature_name);
+            if (!featureIds.has(key)) featureIds.set(key, featureId);
+            nodes.push({ id: featureId, label: [feature.feature_name, `${feature.size} ${feature.feature_type}`], kind: "feature" });
+            containments.push({ region: id, feature: featureId });
+        });
+    });
+
+    const nodeFor = (name: string) => {
+        let id = ids.get(name);
+        if (!id) {
+            id = `missing_${ids.size + featureIds.size}`;
+            ids.set(name, id);
+            nodes.push({ id, label: [name, "(missing region)"], kind: "missing" });
+        }
+        return id;
+    };
+    const featureNodeFor = (region: string, feature: string) => {
+        if (!ids.has(region)) return nodeFor(region);
+        const key = featureKey(region, feature);
+        let id = featureIds.get(key);
+        if (!id) {
+            id = `missing_${ids.size + featureIds.size}`;
+            featureIds.set(key, id);
+            nodes.push({ id, label: [feature, `(missing feature of ${region})`], kind: "missing" });
+        }
+        return id;
+    };
+    const edges = collectRoutes(island).map(({ from, route }) => ({
+        from: from !== undefined ? nodeFor(from) : "arrival",
+        to: route.destination_feature !== undefined ? featureNodeFor(route.destination_name, route.destination_feature) : nodeFor(route.destination_name),
+        route
+    }));
+    return { nodes, edges, containments };
+}
+
+function edgeLabel(route: Route): string {
+    const parts: string[] = [route.route_type, route.difficulty];
+    if (route.direction) parts.push(route.direction);
+    if (!route.open) parts.push("closed");
+    return parts.join(" · ");
+}
+
+/** A DOT quoted string */
+function quoteDot(text: string): string {
+    return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+/** A Mermaid quoted label; Mermaid has no backslash escapes, only entity codes */
+function quoteMermaid(text: string): string {
+    return `"${text.replace(/"/g, "#quot;")}"`;
+}
@@ -0,0 +1,203 @@
+import ts from "typescript";
+
+// A small structural model of a schema file like io_schema.ts, built with the TypeScript parser.
+// The TypeChat validator can only say whether a whole document matches a named type; this lets us ask
+// finer questions, like "what type lives at /regions/2/buildings?" or "what are the allowed values here?".
+//
+// Only the subset of TypeScript our schemas use is modeled: type aliases and interfaces (with extends),
+// object literals, arrays, unions, string/number/boolean literals, primitives, and indexed access (Building["size"]).
+
+export type SchemaType =
+    | { kind: "primitive"; name: "string" | "number" | "boolean" | "unknown"; text: string }
+    | { kind: "literal"; value: string | number | boolean; text: string }
+    | { kind: "array"; element: SchemaType; text: string }
+    | { kind: "union"; options: SchemaType[]; text: string }
+    | { kind: "object"; properties: Record<string, SchemaProperty>; text: string }
+    | { kind: "reference"; name: string; text: string };
+
+export type SchemaProperty = {
+    type: SchemaType;
+    optional: boolean;
+};
+
+export interface SchemaModel {
+    /** Names of the exported types, in declaration order */
+    readonly typeNames: string[];
+    /** The declared type for a name, or undefined if there's no such type */
+    getType(name: string): SchemaType | undefined;
+    /** Follows references (and single-option unions) until reaching a structural type */
+    resolve(type: SchemaType): SchemaType;
+    /** All the literal values a type allows, if it is a union of literals; undefined otherwise */
+    literalValues(type: SchemaType): (string | number | boolean)[] | undefined;
+    /** The properties of an object type, including those inherited through extends; empty for non-objects */
+    propertiesOf(type: SchemaType): Record<string, SchemaProperty>;
+    /**
+     * The declared type at a path inside a value of the root type, e.g. ["regions", 2, "buildings"] in Island.
+     * Returns undefined for paths the schema doesn't describe.
+     */
+    typeAtPath(rootTypeName: string, path: (string | number)[]): SchemaType | undefined;
+}
+
+/**
+ * Parses TypeScript schema source text into a `SchemaModel`.
+ * @param schemaText The schema source, e.g. the contents of io_schema.ts.
+ */
+export function createSchemaModel(schemaText: string): SchemaModel {
+    const source = ts.createSourceFile("schema.ts", schemaText, ts.ScriptTarget.Latest, true);
+    const declared = new Map<string, SchemaType>();
+    const typeNames: string[] = [];
+
+    for (const statement of source.statements) {
+        if (ts.isTypeAliasDeclaration(statement)) {
+            declared.set(statement.name.text, convert(statement.type));
+            if (isExported(statement)) typeNames.push(statement.name.text);
+        } else if (ts.isInterfaceDeclaration(statement)) {
+            const properties: Record<string, SchemaProperty> = {};
+            for (const clause of statement.heritageClauses ?? []) {
+                for (const base of clause.types) {
+                    const baseName = base.expression.getText(source);
+                    properties[`...${baseName}`] = { type: { kind: "reference", name: baseName, text: baseName }, optional: false };
+                }
+            }
+            Object.assign(properties, convertMembers(statement.members));
+            declared.set(statement.name.text, { kind: "object", properties, text: statement.name.text });
+            if (isExported(statement)) typeNames.push(statement.name.text);
+        }
+    }
+
+    const model: SchemaModel = {
+        typeNames,
+        getType: name => declared.get(name),
+        resolve,
+        literalValues,
+        propertiesOf: type => properties(resolve(type)),
+        typeAtPath
+    };
+    return model;
+
+    function convert(node: ts.TypeNode): SchemaType {
+        const text = node.getText(source);
+        switch (node.kind) {
+            case ts.SyntaxKind.StringKeyword: return { kind: "primitive", name: "string", text };
+            case ts.SyntaxKind.NumberKeyword: return { kind: "primitive", name: "number", text };
+            case ts.SyntaxKind.BooleanKeyword: return { kind: "primitive", name: "boolean", text };
+        }
+        if (ts.isParenthesizedTypeNode(node)) {
+            return convert(node.type);
+        }
+        if (ts.isLiteralTypeNode(node)) {
+            const literal = node.literal;
+            if (ts.isStringLiteral(literal)) return { kind: "literal", value: literal.text, text };
+            if (ts.isNumericLiteral(literal)) return { kind: "literal", value: Number(literal.text), text };
+            if (literal.kind === ts.SyntaxKind.TrueKeyword) return { kind: "literal", value: true, text };
+            if (literal.kind === ts.SyntaxKind.FalseKeyword) return { kind: "literal", value: false, text };
+        }
+        if (ts.isArrayTypeNode(node)) {
+            return { kind: "array", element: convert(node.elementType), text };
+        }
+        if (ts.isUnionTypeNode(node)) {
+            return { kind: "union", options: node.types.map(convert), text };
+        }
+        if (ts.isTypeLiteralNode(node)) {
+            return { kind: "object", properties: convertMembers(node.members), text };
+        }
+        if (ts.isTypeReferenceNode(node)) {
+            const name = node.typeName.getText(source);
+            if (name === "Array" && node.typeArguments?.length === 1) {
+                return { kind: "array", element: convert(node.typeArguments[0]), text };
+            }
+            return { kind: "reference", name, text };
+        }
+        if (ts.isIndexedAccessTypeNode(node) && ts.isLiteralTypeNode(node.indexType) && ts.isStringLiteral(node.indexType.literal)) {
+            // e.g. Building["building_type"]: resolved lazily since Building may be declared later
+            const objectType = convert(node.objectType);
+            const key = node.indexType.literal.text;
+            return { kind: "reference", name: `${objectType.text}["${key}"]`, text };
+        }
+        return { kind: "primitive", name: "unknown", text };
+    }
+
+    function convertMembers(members: ts.NodeArray<ts.TypeElement>): Record<string, SchemaProperty> {
+        const properties: Record<string, SchemaProperty> = {};
+        for (const member of members) {
+            if (ts.isPropertySignature(member) && member.type) {
+                const name = ts.isIdentifier(member.name) || ts.isStringLiteral(member.name) ? member.name.text : member.name.getText(source);
+                properties[name] = { type: convert(member.type), optional: member.questionToken !== undefined };
+            }
+        }
+        return properties;
+    }
+
+    function resolve(type: SchemaType): SchemaType {
+        for (let depth = 0; depth < 32; depth++) {
+            if (type.kind === "reference") {
+                const target = declared.get(type.name) ?? resolveIndexed(type.name);
+                if (!target) return { kind: "primitive", name: "unknown", text: type.text };
+                type = target;
+            } else if (type.kind === "union" && type.options.length === 1) {
+                type = type.options[0];
+            } else {
+                return type;
+            }
+        }
+        return type;
+    }
+
+    /** Resolves `Name["key"]` references */
+    function resolveIndexed(name: string): SchemaType | undefined {
+        const match = /^(\w+)\["(\w+)"\]$/.exec(name);
+        if (!match) return undefined;
+        const owner = declared.get(match[1]);
+        return owner ? properties(resolve(owner))[match[2]]?.type : undefined;
+    }
+
+    function literalValues(type: SchemaType): (string | number | boolean)[] | undefined {
+        const resolved = resolve(type);
+        if (resolved.kind === "literal") return [resolved.value];
+        if (resolved.kind !== "union") return undefined;
+        const values: (string | number | boolean)[] = [];
+        for (const option of resolved.options) {
+            const optionValues = literalValues(option);
+            if (!optionValues) return undefined;
+            values.push(...optionValues);
+        }
+        return values;
+    }
+
+    function typeAtPath(rootTypeName: string, path: (string | number)[]): SchemaType | undefined {
+        let current: SchemaType | undefined = declared.get(rootTypeName) && { kind: "reference", name: rootTypeName, text: rootTypeName };
+        for (const step of path) {
+            if (!current) return undefined;
+            const resolved = resolve(current);
+            if (resolved.kind === "array") {
+                if (!(typeof step === "number" || /^\d+$/.test(step))) return undefined;
+                current = resolved.element;
+            } else if (resolved.kind === "object") {
+                current = properties(resolved)[String(step)]?.type;
+            } else if (resolved.kind === "union") {
+                // e.g. Fauna: take the first object option that has the property
+                current = resolved.options.map(o => resolve(o))
+                    .map(o => o.kind === "object" ? properties(o)[String(step)]?.type : undefined)
+                    .find(t => t !== undefined);
+            } else {
+                return undefined;
+            }
+        }
+        return current;
+    }
+
+    /** An object type's own properties plus those of the interfaces it extends */
+    function properties(type: SchemaType): Record<string, SchemaProperty> {
+        if (type.kind !== "object") return {};
+        const all: Record<string, SchemaProperty> = {};
+        for (const [name, property] of Object.entries(type.properties)) {
+            if (name.startsWith("...")) Object.assign(all, properties(resolve(property.type)));
+            else all[name] = property;
+        }
+        return all;
+    }
+}
+
+function isExported(node: ts.TypeAliasDeclaration | ts.InterfaceDeclaration): boolean {
+    return (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.Export) !== 0;
+}
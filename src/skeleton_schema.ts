@@ -0,0 +1,61 @@
+import { Topography, Biome, Weather, TimeOfDay, Material, Route, Building, Fauna, Artifact, GeoFeature } from "./io_schema";
+
+// Sub-schemas for hierarchical island generation.
+// An island is generated in three tiers: the skeleton (regions and routes, no contents), then each region's
+// contents (building outlines, fauna, artifacts, geo features), then each building in full.
+// The import above is for the compiler only; at runtime this file is appended to io_schema.ts.
+
+// ISLANDSKELETON is an island without region contents: the names, story, and route graph
+export type IslandSkeleton = {
+    island_name: string;
+    goal: string;
+    story_context: string;
+
+    base_topography: Topography;
+    base_biome: Biome;
+    base_weather: Weather;
+
+    population: number;
+
+    starting_routes: Route[];
+    regions: RegionOutline[];
+}
+
+// REGIONOUTLINE is a region header: everything about a region except what's in it
+export type RegionOutline = {
+    region_name: string;
+    story: string;
+    region_number: number;
+
+    topography: Topography;
+    biome: Biome;
+    weather: Weather;
+    time: TimeOfDay;
+
+    size: "small" | "medium" | "large" | "extra large";
+
+    next_area: Route;
+    shortcut?: Route;
+    other_routes?: Route[];
+
+    altitude: number;
+    location_x: number;
+    location_y: number;
+}
+
+// REGIONCONTENTS is what goes in a region; buildings are outlines, generated in full separately
+export type RegionContents = {
+    buildings: BuildingOutline[];
+    fauna?: Fauna[];
+    artifacts?: Artifact[];
+    geo_features?: GeoFeature[];    // including any the region's incoming routes name as destination_feature
+}
+
+// BUILDINGOUTLINE is a building header, expanded into a full Building later
+export type BuildingOutline = {
+    building_name: string;
+    building_type: Building["building_type"];
+    gameplay_purpose: string;
+    material: Material;
+    size: "small" | "medium" | "large" | "extra large";
+}
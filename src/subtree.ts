@@ -0,0 +1,136 @@
+import { Result, success, error } from "../node_modules/typechat/dist/result";
+import { Building, Island } from "./io_schema";
+import { SchemaModel } from "./schema_model";
+import { parsePointer } from "./json_patch";
+
+// Path-scoped regeneration: regenerate one subtree of an island (a region, a building's story, all of
+// regions[2].buildings...) without sending the model, or risking, the rest of the document.
+//
+// The subtree is validated against its own declared type from the schema. TypeChat validates against a
+// named type, so when the subtree isn't a named type on its own (an array, a string, an inline union),
+// we wrap it in an object and append a small wrapper type to the schema:
+//   Building[]             -> { "items": [...] }    as  SubtreeItems = { items: Building[] }
+//   string, "small" | ...  -> { "value": ... }      as  SubtreeValue = { value: string }
+
+export type SubtreeTarget = {
+    pointer: string;            // JSON pointer into the island, e.g. "/regions/2/buildings"
+    declaredType: string;       // the type as written in the schema, e.g. "Building[]"
+    typeName: string;           // the type the subtree validator checks against
+    schemaText: string;         // the schema text for the subtree validator
+    wrap: "none" | "items" | "value";
+};
+
+/**
+ * Works out how to validate the subtree at `pointer` in a value of `rootTypeName`.
+ * @param model The structural model of the schema.
+ * @param schemaText The schema source the model was built from.
+ * @param rootTypeName The type of the whole document, e.g. "Island".
+ * @param pointer A JSON pointer to the subtree.
+ */
+export function resolveSubtreeTarget(model: SchemaModel, schemaText: string, rootTypeName: string, pointer: string): Result<SubtreeTarget> {
+    let tokens: string[];
+    try {
+        tokens = parsePointer(pointer);
+    } catch (e: any) {
+        return error(e.message);
+    }
+    if (tokens.length === 0) {
+        return error("The path must point inside the island; use a normal modify for the whole island.");
+    }
+    const type = model.typeAtPath(rootTypeName, tokens);
+    if (!type) {
+        return error(`The schema has nothing at path "${pointer}".`);
+    }
+
+    if (type.kind === "reference" && model.getType(type.name)) {
+        return success({ pointer, declaredType: type.text, typeName: type.name, schemaText, wrap: "none" });
+    }
+    if (type.kind === "array") {
+        const wrapper = `\n// SUBTREEITEMS holds the list being regenerated\nexport type SubtreeItems = { items: ${type.text} };\n`;
+        return success({ pointer, declaredType: type.text, typeName: "SubtreeItems", schemaText: schemaText + wrapper, wrap: "items" });
+    }
+    const wrapper = `\n// SUBTREEVALUE holds the value being regenerated\nexport type SubtreeValue = { value: ${type.text} };\n`;
+    return success({ pointer, declaredType: type.text, typeName: "SubtreeValue", schemaText: schemaText + wrapper, wrap: "value" });
+}
+
+/** Wraps a subtree value in the shape its validator expects */
+export function wrapSubtree(target: SubtreeTarget, value: unknown): object {
+    switch (target.wrap) {
+        case "items": return { items: value ?? [] };
+        case "value": return { value };
+        default: return value as object;
+    }
+}
+
+/** Unwraps a validated subtree back to the value that goes at the pointer */
+export function unwrapSubtree(target: SubtreeTarget, value: object): unknown {
+    switch (target.wrap) {
+        case "items": return (value as { items: unknown }).items;
+        case "value": return (value as { value: unknown }).value;
+        default: return value;
+    }
+}
+
+/**
+ * A compact summary of the island around a subtree, for the prompt preamble. Rather than the whole document,
+ * the model gets the island header, a one-line summary of every region, and the headers of the region and
+ * building that contain the subtree.
+ */
+export function describeSubtreeContext(island: Island, target: SubtreeTarget): string {
+    return `You are editing one part of the island "${island.island_name}".\n` + describeSurroundings(island, target.pointer) +
+        `Only the part at ${target.pointer} (of type ${target.declaredType}) is being regenerated; everything else stays as it is.\n`;
+}
+
+/**
+ * The island around a JSON pointer: its header, a one-line summary of every region, the headers of the region,
+ * geo feature and building the pointer is in, and the building and feature names already taken.
+ */
+export function describeSurroundings(island: Island, pointer: string): string {
+    const tokens = parsePointer(pointer);
+    const regions = (island.regions ?? []).map(r =>
+        `- ${r.region_name} (#${r.region_number}, ${r.size} ${r.biome} ${r.topography}, ${r.weather}, ${r.time}): ${r.story}`).join("\n");
+    let context = `Goal: ${island.goal}\n` +
+        `Story: ${island.story_context}\n` +
+        `Between regions the island is ${island.base_biome} ${island.base_topography} with ${island.base_weather} weather.\n` +
+        `The island's regions are:\n${regions}\n`;
+
+    if (tokens[0] === "regions" && tokens.length > 1) {
+        const region = island.regions?.[Number(tokens[1])];
+        if (region) {
+            const { buildings, fauna, artifacts, geo_features, ...header } = region;
+            const features = geo_features?.length ? ` and geo features ${geo_features.map(f => `${f.feature_name} (${f.feature_type})`).join(", ")}` : "";
+            context += `The part in question is in this region (contents omitted; it has ${buildings?.length ?? 0} buildings${features}):\n` +
+                `${JSON.stringify(header)}\n`;
+
+            // a building may be the region's own or one at a geo feature
+            let place: { buildings?: Building[] | undefined; rest: string[] } = { buildings, rest: tokens.slice(2) };
+            if (place.rest[0] === "geo_features" && place.rest.length > 1) {
+                const feature = geo_features?.[Number(place.rest[1])];
+                if (feature) {
+                    const { buildings, fauna, artifacts, ...featureHeader } = feature;
+                    context += `It is at this geo feature (contents omitted):\n${JSON.stringify(featureHeader)}\n`;
+                    place = { buildings, rest: place.rest.slice(2) };
+                }
+            }
+            if (place.rest[0] === "buildings" && place.rest.length > 1) {
+                const building = place.buildings?.[Number(place.rest[1])];
+                if (building) {
+                    const { inhabitants, artifacts, ...buildingHeader } = building;
+                    context += `It is in this building (contents omitted):\n${JSON.stringify(buildingHeader)}\n`;
+                }
+            }
+        }
+    }
+
+    const buildingNames = (island.regions ?? []).flatMap(r => [
+        ...(r.buildings ?? []), ...(r.geo_features ?? []).flatMap(f => f.buildings ?? [])
+    ].map(b => b.building_name));
+    if (buildingNames.length > 0) {
+        context += `Building names already in use elsewhere: ${buildingNames.join(", ")}.\n`;
+    }
+    const featureNames = (island.regions ?? []).flatMap(r => (r.geo_features ?? []).map(f => f.feature_name));
+    if (featureNames.length > 0) {
+        context += `Geo feature names already in use: ${featureNames.join(", ")}.\n`;
+    }
+    return context;
+}
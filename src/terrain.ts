@@ -0,0 +1,519 @@
+import zlib from "zlib";
+import { Biome, Island, Region, Route, Topography } from "./io_schema";
+import { collectRoutes } from "./island_validator";
+
+// Terrain rasterizer: turns an island's regions into a heightmap and a biome splat map the engine can load.
+// Everything is deterministic for a given island, seed and resolution, so a map can be regenerated at any time
+// instead of being stored.
+//
+// How a map is built:
+//  - each region is a blob of land around (location_x, location_y), sized by `size`, at its `altitude`;
+//    land routes between regions widen into land bridges so the island hangs together, and the rest is sea
+//  - between regions the ground eases from one region's altitude to the next, shaped by base_topography
+//  - near a region its own topography takes over: canyons cut a channel, craters raise a rim around a bowl,
+//    dunes ripple across the wind, islets break the land up into little islands, and so on
+//  - roads, paths and trails between regions are carved in as graded paths (and painted on the splat map);
+//    bridges are painted but not carved, tunnels run underground and crossings are off the land entirely
+//
+// Coordinates are the regions' own, in meters, with north (+y) at the top of the map. Altitude 0 is sea level.
+
+export type TerrainOptions = {
+    seed?: number | string;         // noise seed; defaults to the island name, so an island always looks the same
+    resolution?: number;            // pixels along each side of the (square) map, default 513
+};
+
+export type TerrainFormat = "png" | "raw";
+
+/** Everything about a map but its pixels, for placing and scaling it in the engine */
+export type TerrainInfo = {
+    width: number;
+    height: number;
+    seed: number;
+    meters_per_pixel: number;
+    origin_x: number;               // x of the left column, in meters
+    origin_y: number;               // y of the top row, in meters; y decreases down the map
+    min_altitude: number;           // meters at heightmap value 0
+    max_altitude: number;           // meters at heightmap value 65535
+    sea_level: number;
+    layers: string[];               // splat map value -> layer name
+    colors: string[];               // splat map value -> preview color in the png
+};
+
+export type Terrain = TerrainInfo & {
+    heights: Uint16Array;           // row-major, top row first, scaled between min_altitude and max_altitude
+    splat: Uint8Array;              // row-major layer index per pixel
+};
+
+export const DEFAULT_RESOLUTION = 513;
+export const MIN_RESOLUTION = 33;
+export const MAX_RESOLUTION = 1025;
+
+const SEA_LEVEL = 0;
+const SEA_FLOOR = -20;              // meters, far from any land
+const SHORE_LIFT = 1.5;             // land is raised this much so regions at altitude 0 stay above the water
+const LAND_REACH = 2.2;             // land extends this many region radii from a region's center
+const SEA_MARGIN = 150;             // meters of open sea around the island
+
+/** The radius a region of each size covers, in meters */
+export const regionRadius: Record<Region["size"], number> = {
+    "small": 60,
+    "medium": 120,
+    "large": 220,
+    "extra large": 350
+};
+
+// carved width of each kind of land route, in meters; other route types aren't carved
+const routeWidths: Partial<Record<Route["route_type"], number>> = {
+    road: 6,
+    path: 3,
+    trail: 2
+};
+
+const biomeColors: Record<Biome, string> = {
+    "saltmarsh": "#7f9a6b",
+    "wetlands": "#4f7f5a",
+    "rocky": "#8a8580",
+    "tundra": "#c9d3d6",
+    "forest": "#2f5d34",
+    "meadow": "#8fbf5a",
+    "coastal scrub": "#a7a56b",
+    "woodland": "#4d7a3a",
+    "desert": "#dcc58b",
+    "beach": "#ecdcaa"
+};
+
+const WATER = 0;
+const PATH = 1;
+const LAYERS = ["water", "path", ...Object.keys(biomeColors)];
+const LAYER_COLORS = ["#2a5d8f", "#9b7b55", ...Object.values(biomeColors)];
+
+type Noise = {
+    /** fractal value noise in about [-1, 1] */
+    fbm(x: number, y: number, octaves?: number): number;
+    /** ridged fractal noise in [0, 1], sharp crests at 1 */
+    ridged(x: number, y: number, octaves?: number): number;
+    /** a fixed pseudo-random number in [0, 1) for an index */
+    random(i: number): number;
+};
+
+type PlacedRegion = {
+    region: Region;
+    x: number;
+    y: number;
+    radius: number;
+    altitude: number;
+    angle: number;                  // orientation of canyons, valleys and dunes
+};
+
+type Segment = {
+    from: PlacedRegion;
+    to: PlacedRegion;
+    route: Route;
+};
+
+/**
+ * Rasterizes an island's regions into a heightmap and splat map.
+ * @param island The island; regions without usable coordinates are placed at the origin.
+ */
+export function rasterizeTerrain(island: Island, options: TerrainOptions = {}): Terrain {
+    const size = clamp(Math.round(options.resolution ?? DEFAULT_RESOLUTION), MIN_RESOLUTION, MAX_RESOLUTION);
+    const seed = typeof options.seed === "number" ? options.seed >>> 0 : hashString(options.seed ?? island.island_name ?? "");
+    const noise = createNoise(seed);
+
+    const regions: PlacedRegion[] = (island.regions ?? []).map((region, i) => ({
+        region,
+        x: finite(region.location_x),
+        y: finite(region.location_y),
+        radius: regionRadius[region.size] ?? regionRadius.medium,
+        altitude: finite(region.altitude),
+        angle: noise.random(i) * Math.PI
+    }));
+    const segments = landSegments(island, regions);
+
+    // a square map around every region's land, plus some sea
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const r of regions) {
+        const reach = r.radius * LAND_REACH + SEA_MARGIN;
+        minX = Math.min(minX, r.x - reach);
+        maxX = Math.max(maxX, r.x + reach);
+        minY = Math.min(minY, r.y - reach);
+        maxY = Math.max(maxY, r.y + reach);
+    }
+    if (regions.length === 0) {
+        minX = minY = -500;
+        maxX = maxY = 500;
+    }
+    const span = Math.max(maxX - minX, maxY - minY);
+    const metersPerPixel = span / (size - 1);
+    const originX = (minX + maxX - span) / 2;
+    const originY = (minY + maxY + span) / 2;
+
+    const altitudes = new Float32Array(size * size);
+    const splat = new Uint8Array(size * size);
+    const baseLayer = layerOf(island.base_biome);
+
+    for (let row = 0; row < size; row++) {
+        const y = originY - row * metersPerPixel;
+        for (let col = 0; col < size; col++) {
+            const x = originX + col * metersPerPixel;
+            const i = row * size + col;
+
+            // how much each region shapes this point, and how much of it is land at all
+            let land = 0;
+            let totalWeight = 0;
+            let shepardSum = 0, shepardAltitude = 0;
+            const weights: number[] = [];
+            const coastNoise = noise.fbm(x / 140, y / 140, 3) * 0.25;
+            for (const r of regions) {
+                const d2 = (x - r.x) ** 2 + (y - r.y) ** 2;
+                const reach = Math.sqrt(d2) / (r.radius * LAND_REACH);
+                land = Math.max(land, 1 - smoothstep(0.6, 1, reach + coastNoise));
+                const weight = Math.exp(-1.5 * d2 / (r.radius * r.radius));
+                weights.push(weight);
+                totalWeight += weight;
+                const inverse = 1 / (d2 + r.radius * r.radius);
+                shepardSum += inverse;
+                shepardAltitude += r.altitude * inverse;
+            }
+            for (const s of segments) {
+                const width = Math.min(s.from.radius, s.to.radius) * 0.6;
+                const { distance } = toSegment(x, y, s.from, s.to);
+                land = Math.max(land, 1 - smoothstep(0.5, 1, Math.abs(distance) / width + coastNoise));
+            }
+
+            // the ground between regions, then each region's own shape where it dominates
+            const norm = Math.max(1, totalWeight);
+            const baseWeight = Math.max(0, 1 - totalWeight);
+            let altitude = (shepardSum > 0 ? shepardAltitude / shepardSum : 0) +
+                baseWeight * profile(island.base_topography, x, y, 0, 0, 0, noise);
+            let strongest = -1, strongestWeight = 0;
+            regions.forEach((r, k) => {
+                const weight = weights[k] / norm;
+                if (weight < 0.01) return;
+                const cos = Math.cos(r.angle), sin = Math.sin(r.angle);
+                const u = ((x - r.x) * cos + (y - r.y) * sin) / r.radius;      // along the region's axis
+                const v = (-(x - r.x) * sin + (y - r.y) * cos) / r.radius;     // across it
+                altitude += weight * profile(r.region.topography, x, y, u, v, r.altitude, noise);
+                const jittered = weights[k] * (1 + 0.35 * noise.fbm(x / 60 + k * 31.7, y / 60, 2));
+                if (jittered > strongestWeight) {
+                    strongest = k;
+                    strongestWeight = jittered;
+                }
+            });
+
+            const shore = smoothstep(0, 1, land);
+            altitudes[i] = SEA_FLOOR + (altitude + SHORE_LIFT - SEA_FLOOR) * shore;
+            splat[i] = altitudes[i] < SEA_LEVEL ? WATER
+                : strongest >= 0 && strongestWeight > 0.3 ? layerOf(regions[strongest].region.biome)
+                : baseLayer;
+        }
+    }
+
+    for (const s of segments) {
+        carveRoute(s, altitudes, splat, size, originX, originY, metersPerPixel, noise);
+    }
+
+    let minAltitude = Infinity, maxAltitude = -Infinity;
+    for (const a of altitudes) {
+        minAltitude = Math.min(minAltitude, a);
+        maxAltitude = Math.max(maxAltitude, a);
+    }
+    if (maxAltitude <= minAltitude) maxAltitude = minAltitude + 1;
+    const heights = new Uint16Array(size * size);
+    const scale = 65535 / (maxAltitude - minAltitude);
+    altitudes.forEach((a, i) => { heights[i] = Math.round((a - minAltitude) * scale); });
+
+    return {
+        width: size,
+        height: size,
+        seed,
+        meters_per_pixel: metersPerPixel,
+        origin_x: originX,
+        origin_y: originY,
+        min_altitude: minAltitude,
+        max_altitude: maxAltitude,
+        sea_level: SEA_LEVEL,
+        layers: LAYERS,
+        colors: LAYER_COLORS,
+        heights,
+        splat
+    };
+}
+
+/** The map's metadata without its pixels */
+export function terrainInfo(terrain: Terrain): TerrainInfo {
+    const { heights, splat, ...info } = terrain;
+    return info;
+}
+
+/**
+ * Encodes the heightmap as a 16-bit grayscale png, or as raw little-endian 16-bit samples
+ * (the .r16 / .raw format Unity and Unreal import).
+ */
+export function encodeHeightmap(terrain: Terrain, format: TerrainFormat): Buffer {
+    const { width, height, heights } = terrain;
+    if (format === "raw") {
+        const raw = Buffer.alloc(width * height * 2);
+        heights.forEach((h, i) => raw.writeUInt16LE(h, i * 2));
+        return raw;
+    }
+    const rows = Buffer.alloc(height * (1 + width * 2));
+    for (let row = 0; row < height; row++) {
+        const start = row * (1 + width * 2);      // each row starts with filter type 0
+        for (let col = 0; col < width; col++) {
+            rows.writeUInt16BE(heights[row * width + col], start + 1 + col * 2);
+        }
+    }
+    return encodePng(width, height, 16, 0, rows);
+}
+
+/**
+ * Encodes the splat map as an indexed png (previewable, with the layer colors as its palette),
+ * or as raw 8-bit layer indices.
+ */
+export function encodeSplatmap(terrain: Terrain, format: TerrainFormat): Buffer {
+    const { width, height, splat } = terrain;
+    if (format === "raw") {
+        return Buffer.from(splat.buffer, splat.byteOffset, splat.byteLength);
+    }
+    const rows = Buffer.alloc(height * (1 + width));
+    for (let row = 0; row < height; row++) {
+        rows.set(splat.subarray(row * width, (row + 1) * width), row * (1 + width) + 1);
+    }
+    const palette = Buffer.concat(terrain.colors.map(color => Buffer.from(color.slice(1), "hex")));
+    return encodePng(width, height, 8, 3, rows, palette);
+}
+
+// ===== 🔷 Shapes =====
+
+/**
+ * A topography's height offset from the ground around it, in meters.
+ * @param x, y World position, for noise.
+ * @param u, v Position relative to the region's center, in region radii, along and across its axis.
+ * @param altitude The region's altitude, for shapes that reach down to the sea.
+ */
+function profile(topography: Topography, x: number, y: number, u: number, v: number, altitude: number, noise: Noise): number {
+    switch (topography) {
+        case "flat":
+            return 1 * noise.fbm(x / 120, y / 120, 2);
+        case "moorlands":
+            return 6 * noise.fbm(x / 300, y / 300, 3) + 2 * noise.fbm(x / 60, y / 60, 2);
+        case "hilly":
+            return 22 * noise.fbm(x / 180, y / 180, 4);
+        case "craggy":
+            return 28 * noise.ridged(x / 90, y / 90, 5) + 6 * noise.fbm(x / 25, y / 25, 2) - 14;
+        case "cliffs": {
+            // terraces: long flat steps with sheer drops between them
+            const level = 40 * (noise.fbm(x / 220, y / 220, 3) * 0.5 + 0.5);
+            const step = 10;
+            const frac = level / step - Math.floor(level / step);
+            return step * (Math.floor(level / step) + smoothstep(0.85, 1, frac)) - 20;
+        }
+        case "canyon": {
+            // a winding channel along the region's axis, with broken walls
+            const across = Math.abs(v + 0.3 * noise.fbm(u * 1.5, 0.5, 3));
+            return -45 * (1 - smoothstep(0.08, 0.3, across)) + 6 * noise.ridged(x / 40, y / 40, 3);
+        }
+        case "valley":
+            return -25 * Math.max(0, 1 - v * v) + 4 * noise.fbm(x / 150, y / 150, 3);
+        case "gullies":
+            return -9 * (1 - Math.abs(noise.fbm(x / 50, y / 50, 3))) ** 4 + 6 * noise.fbm(x / 200, y / 200, 2);
+        case "dunes": {
+            // crests across the wind, bent a little by noise
+            const phase = u * 2 * Math.PI * 4 + 3 * noise.fbm(x / 150, y / 150, 2);
+            return 7 * (0.5 + 0.5 * Math.sin(phase)) ** 1.5;
+        }
+        case "crater": {
+            const r = Math.sqrt(u * u + v * v);
+            return 28 * Math.exp(-(((r - 0.55) / 0.12) ** 2)) - 38 * (1 - smoothstep(0, 0.55, r)) + 3 * noise.fbm(x / 50, y / 50, 2);
+        }
+        case "wetlands":
+            // low and soggy, with pools just under the water line
+            return -Math.max(0, altitude) * 0.6 + 1.2 * noise.fbm(x / 80, y / 80, 2) -
+                2.2 * smoothstep(0.15, 0.45, -noise.fbm(x / 140, y / 140, 3)) - SHORE_LIFT;
+        case "islets": {
+            // break the land into little islands with channels of sea between them
+            const isle = smoothstep(-0.05, 0.15, noise.fbm(x / 110, y / 110, 3));
+            return 3 * noise.fbm(x / 60, y / 60, 2) - (1 - isle) * (Math.max(0, altitude) + SHORE_LIFT + 12);
+        }
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Land routes between two regions on the island, one per pair of regions (a route back the way you came follows
+ * the same path). Starting routes come from off the map, so they have no segment.
+ */
+function landSegments(island: Island, regions: PlacedRegion[]): Segment[] {
+    const byName = new Map(regions.map(r => [r.region.region_name, r]));
+    const segments = new Map<string, Segment>();
+    for (const { from, route } of collectRoutes(island)) {
+        const start = from !== undefined ? byName.get(from) : undefined;
+        const end = byName.get(route.destination_name);
+        if (!start || !end || start === end) continue;
+        const pair = [start.region.region_name, end.region.region_name].sort().join("\n");
+        if (segments.has(pair)) continue;
+        if (route.route_type === "road" || route.route_type === "path" || route.route_type === "trail" || route.route_type === "bridge") {
+            segments.set(pair, { from: start, to: end, route });
+        }
+    }
+    return [...segments.values()];
+}
+
+/** Grades a route into the heightmap (except bridges, which span what's under them) and paints it on the splat map */
+function carveRoute(segment: Segment, altitudes: Float32Array, splat: Uint8Array, size: number,
+    originX: number, originY: number, metersPerPixel: number, noise: Noise) {
+    const carve = routeWidths[segment.route.route_type];
+    const halfWidth = Math.max((carve ?? routeWidths.path!) / 2, metersPerPixel * 0.75);
+    const shoulder = halfWidth * 2;
+    const { from, to } = segment;
+    const meander = Math.hypot(to.x - from.x, to.y - from.y) * 0.06;
+
+    const minCol = clamp(Math.floor((Math.min(from.x, to.x) - meander - shoulder - originX) / metersPerPixel), 0, size - 1);
+    const maxCol = clamp(Math.ceil((Math.max(from.x, to.x) + meander + shoulder - originX) / metersPerPixel), 0, size - 1);
+    const minRow = clamp(Math.floor((originY - Math.max(from.y, to.y) - meander - shoulder) / metersPerPixel), 0, size - 1);
+    const maxRow = clamp(Math.ceil((originY - Math.min(from.y, to.y) + meander + shoulder) / metersPerPixel), 0, size - 1);
+
+    for (let row = minRow; row <= maxRow; row++) {
+        const y = originY - row * metersPerPixel;
+        for (let col = minCol; col <= maxCol; col++) {
+            const x = originX + col * metersPerPixel;
+            const { t, distance: straight } = toSegment(x, y, from, to);
+            // wander off the straight line in the middle, but meet the regions at their centers
+            const wander = meander * Math.sin(Math.PI * t) * noise.fbm(t * 3, 7.3, 2);
+            const distance = Math.abs(straight - wander);
+            if (distance > shoulder) continue;
+            const i = row * size + col;
+            if (carve !== undefined) {
+                const target = Math.max(SEA_LEVEL + 0.5, from.altitude + (to.altitude - from.altitude) * smoothstep(0, 1, t) + SHORE_LIFT);
+                const blend = 1 - smoothstep(halfWidth, shoulder, distance);
+                altitudes[i] += (target - altitudes[i]) * blend;
+            }
+            if (distance <= halfWidth) splat[i] = PATH;
+        }
+    }
+}
+
+/** Where a point is relative to a segment: t along it in [0, 1], and its signed distance to the left of it */
+function toSegment(x: number, y: number, a: { x: number; y: number }, b: { x: number; y: number }): { t: number; distance: number } {
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const length2 = dx * dx + dy * dy;
+    if (length2 === 0) return { t: 0, distance: Math.hypot(x - a.x, y - a.y) };
+    const t = clamp(((x - a.x) * dx + (y - a.y) * dy) / length2, 0, 1);
+    const px = a.x + t * dx, py = a.y + t * dy;
+    const side = (dx * (y - a.y) - dy * (x - a.x)) >= 0 ? 1 : -1;
+    return { t, distance: side * Math.hypot(x - px, y - py) };
+}
+
+// ===== 🔷 Noise =====
+
+/** Seeded value noise; no Math.random, so a seed always gives the same terrain */
+function createNoise(seed: number): Noise {
+    const lattice = (ix: number, iy: number) => {
+        let h = seed ^ Math.imul(ix, 0x27d4eb2d) ^ Math.imul(iy, 0x165667b1);
+        h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+        h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+        h ^= h >>> 16;
+        return (h >>> 0) / 4294967295;
+    };
+    const value = (x: number, y: number) => {
+        const ix = Math.floor(x), iy = Math.floor(y);
+        const fx = x - ix, fy = y - iy;
+        const sx = fx * fx * (3 - 2 * fx), sy = fy * fy * (3 - 2 * fy);
+        const top = lattice(ix, iy) + (lattice(ix + 1, iy) - lattice(ix, iy)) * sx;
+        const bottom = lattice(ix, iy + 1) + (lattice(ix + 1, iy + 1) - lattice(ix, iy + 1)) * sx;
+        return (top + (bottom - top) * sy) * 2 - 1;
+    };
+    const fractal = (x: number, y: number, octaves: number, shape: (n: number) => number) => {
+        let sum = 0, amplitude = 1, total = 0;
+        for (let o = 0; o < octaves; o++) {
+            const frequency = 2 ** o;
+            sum += amplitude * shape(value(x * frequency + o * 17.31, y * frequency - o * 9.17));
+            total += amplitude;
+            amplitude /= 2;
+        }
+        return sum / total;
+    };
+    return {
+        fbm: (x, y, octaves = 4) => fractal(x, y, octaves, n => n),
+        ridged: (x, y, octaves = 4) => fractal(x, y, octaves, n => (1 - Math.abs(n)) ** 2),
+        random: i => lattice(i, 7919)
+    };
+}
+
+/** FNV-1a */
+function hashString(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+    }
+    return h >>> 0;
+}
+
+// ===== 🔷 PNG =====
+
+/**
+ * A minimal png writer: one IDAT chunk, no interlacing.
+ * @param rows The image rows, each prefixed with its filter type byte.
+ */
+function encodePng(width: number, height: number, bitDepth: 8 | 16, colorType: 0 | 3, rows: Buffer, palette?: Buffer): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = bitDepth;
+    header[9] = colorType;              // 0 grayscale, 3 indexed
+    header[10] = header[11] = header[12] = 0;   // deflate, adaptive filtering, no interlace
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk("IHDR", header),
+        ...(palette ? [pngChunk("PLTE", palette)] : []),
+        pngChunk("IDAT", zlib.deflateSync(rows)),
+        pngChunk("IEND", Buffer.alloc(0))
+    ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, "ascii");
+    data.copy(chunk, 8);
+    chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+    return chunk;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ===== 🔷 Helpers =====
+
+function layerOf(biome: Biome): number {
+    const index = LAYERS.indexOf(biome);
+    return index >= 0 ? index : LAYERS.indexOf("meadow");
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+    return t * t * (3 - 2 * t);
+}
+
+function clamp(x: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, x));
+}
+
+function finite(n: number): number {
+    return Number.isFinite(n) ? n : 0;
+}
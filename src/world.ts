@@ -0,0 +1,69 @@
+import { Island, World, WorldRoute } from "./io_schema";
+
+// World context for island prompts.
+// An island generated or modified on its own knows nothing of the archipelago around it, so jobs in a world get
+// a preamble with the world's canon and short summaries of the neighbouring islands: the ones linked to it by
+// island routes, or, for a new island with no routes yet, every island in the world.
+
+/** The most island summaries a preamble lists when the island has no neighbours to narrow it down */
+const MAX_ISLAND_SUMMARIES = 12;
+
+/**
+ * Prompt preamble that puts an island in the context of its world.
+ * @param world The world, with the current data of its islands.
+ * @param islandName The island being generated or modified; omit (or pass a name not in the world) for a new island.
+ */
+export function describeWorldContext(world: World, islandName?: string): string {
+    const islands = world.islands ?? [];
+    const routes = world.island_routes ?? [];
+    const isMember = islandName !== undefined && islands.some(i => i.island_name === islandName);
+
+    const touching = isMember ? routes.filter(r => r.from_island === islandName || r.destination_island === islandName) : [];
+    const neighbourNames = new Set(touching.flatMap(r => [r.from_island, r.destination_island]).filter(n => n !== islandName));
+    const neighbours = isMember && neighbourNames.size > 0
+        ? islands.filter(i => neighbourNames.has(i.island_name))
+        : islands.filter(i => i.island_name !== islandName).slice(0, MAX_ISLAND_SUMMARIES);
+
+    // factions matter here if they're based here, nearby, or nowhere in particular
+    const nearby = new Set([...(islandName !== undefined ? [islandName] : []), ...neighbours.map(i => i.island_name)]);
+    const factions = (world.canon?.factions ?? []).filter(f => !isMember || f.home_island === undefined || nearby.has(f.home_island));
+
+    let context = `This island is part of the world "${world.world_name}". Stay consistent with the world's canon:\n` +
+        `Protagonist: ${world.canon?.protagonist ?? ""}\n` +
+        `History: ${world.canon?.history ?? ""}\n`;
+    if (world.canon?.themes?.length) {
+        context += `Themes: ${world.canon.themes.join(", ")}\n`;
+    }
+    if (factions.length > 0) {
+        context += `Factions:\n${factions.map(f =>
+            `- ${f.faction_name} (${f.stance}${f.home_island !== undefined ? `, based on ${f.home_island}` : ""}): ${f.description}`).join("\n")}\n`;
+    }
+
+    if (neighbours.length > 0) {
+        const heading = isMember && neighbourNames.size > 0 ? "Neighbouring islands" : "Other islands in the world";
+        context += `${heading}:\n${neighbours.map(summarizeIsland).join("\n")}\n`;
+    }
+    if (touching.length > 0) {
+        context += `Routes between this island and its neighbours:\n${touching.map(describeWorldRoute).join("\n")}\n` +
+            `Keep the regions these routes leave from and arrive at.\n`;
+    }
+
+    const taken = islands.map(i => i.island_name).filter(n => n !== islandName);
+    if (taken.length > 0) {
+        context += `Island names already in use: ${taken.join(", ")}.\n`;
+    }
+    return context;
+}
+
+/** One line describing an island for another island's prompt */
+export function summarizeIsland(island: Island): string {
+    const regions = (island.regions ?? []).map(r => r.region_name);
+    return `- ${island.island_name}: ${island.goal} ${island.story_context} ` +
+        `(${regions.length} region${regions.length === 1 ? "" : "s"}${regions.length > 0 ? `: ${regions.join(", ")}` : ""})`;
+}
+
+function describeWorldRoute(route: WorldRoute): string {
+    const from = route.from_region !== undefined ? `${route.from_island} (${route.from_region})` : route.from_island;
+    const to = route.destination_name !== undefined ? `${route.destination_island} (${route.destination_name})` : route.destination_island;
+    return `- ${route.route_type} from ${from} to ${to}: ${route.difficulty}, ${route.open ? "open" : "closed"}, ${route.weather}`;
+}
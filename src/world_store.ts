@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import { Canon, WorldRoute } from "./io_schema";
+import { createRecordFiles } from "./record_files";
+
+// File-backed world repository.
+// A world is stored as references to islands in the island store (which keeps their version history),
+// plus the parts that belong to the world itself: its canon and the routes between islands.
+// Each world is one json file, <dir>/<id>.json. Unlike islands, worlds are edited in place.
+
+export type WorldRecord = {
+    id: string;
+    world_name: string;
+    created_at: string;
+    updated_at: string;
+    canon: Canon;
+    island_ids: string[];           // ids in the island store, in world order
+    island_routes: WorldRoute[];
+};
+
+/** The editable parts of a world */
+export type WorldInfo = {
+    world_name: string;
+    canon: Canon;
+    island_ids: string[];
+    island_routes: WorldRoute[];
+};
+
+/** A record without the canon and routes, for listings */
+export type WorldSummary = {
+    id: string;
+    world_name: string;
+    created_at: string;
+    updated_at: string;
+    islands: number;
+};
+
+export interface WorldStore {
+    list(): Promise<WorldSummary[]>;
+    get(id: string): Promise<WorldRecord | undefined>;
+    create(info: WorldInfo): Promise<WorldRecord>;
+    /** Replaces the given parts of a world; undefined if the world doesn't exist */
+    update(id: string, changes: Partial<WorldInfo>): Promise<WorldRecord | undefined>;
+    /** Adds an island to a world if it isn't already in it; undefined if the world doesn't exist */
+    addIsland(id: string, islandId: string): Promise<WorldRecord | undefined>;
+    /** Removes an island from a world; undefined if the world doesn't exist */
+    removeIsland(id: string, islandId: string): Promise<WorldRecord | undefined>;
+}
+
+/**
+ * Creates a file-backed world store in the given directory (created if missing).
+ * Writes to one world are serialized, and each write replaces the file atomically.
+ * @param dir Directory to keep the world files in.
+ */
+export function createWorldStore(dir: string): WorldStore {
+    const files = createRecordFiles<WorldRecord>(dir);
+
+    const store: WorldStore = {
+        list,
+        get,
+        create,
+        update,
+        addIsland: (id, islandId) => modify(id, record => {
+            if (!record.island_ids.includes(islandId)) record.island_ids.push(islandId);
+        }),
+        removeIsland: (id, islandId) => modify(id, record => {
+            record.island_ids = record.island_ids.filter(i => i !== islandId);
+        })
+    };
+    return store;
+
+    async function list(): Promise<WorldSummary[]> {
+        const summaries: WorldSummary[] = [];
+        for (const id of await files.ids()) {
+            const record = await get(id);
+            if (record) summaries.push(summarizeWorld(record));
+        }
+        return summaries.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    }
+
+    function get(id: string): Promise<WorldRecord | undefined> {
+        return files.read(id);
+    }
+
+    async function create(info: WorldInfo): Promise<WorldRecord> {
+        const now = new Date().toISOString();
+        const record: WorldRecord = { id: crypto.randomUUID(), created_at: now, updated_at: now, ...info };
+        await files.write(record.id, record);
+        return record;
+    }
+
+    function update(id: string, changes: Partial<WorldInfo>): Promise<WorldRecord | undefined> {
+        return modify(id, record => {
+            if (changes.world_name !== undefined) record.world_name = changes.world_name;
+            if (changes.canon !== undefined) record.canon = changes.canon;
+            if (changes.island_ids !== undefined) record.island_ids = changes.island_ids;
+            if (changes.island_routes !== undefined) record.island_routes = changes.island_routes;
+        });
+    }
+
+    function modify(id: string, change: (record: WorldRecord) => void): Promise<WorldRecord | undefined> {
+        return files.exclusive(id, async () => {
+            const record = await get(id);
+            if (!record) return undefined;
+            change(record);
+            record.updated_at = new Date().toISOString();
+            await files.write(record.id, record);
+            return record;
+        });
+    }
+}
+
+export function summarizeWorld(record: WorldRecord): WorldSummary {
+    return {
+        id: record.id,
+        world_name: record.world_name,
+        created_at: record.created_at,
+        updated_at: record.updated_at,
+        islands: record.island_ids.length
+    };
+}